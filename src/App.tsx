@@ -10,28 +10,49 @@ import { Web3Provider } from './components/providers/Web3Provider'
 import { Header } from './components/layout/Header'
 import { AccountInfo } from './components/web3/AccountInfo'
 import { TokenBalancesOverview } from './components/web3/TokenBalances'
+import { TokenListManager } from './components/web3/TokenListManager'
+import { PortfolioOverview } from './components/web3/PortfolioOverview'
 import { TransferForm } from './components/web3/TransferForm'
+import { AddressBookManager } from './components/web3/AddressBookManager'
+import { ReceiveCard } from './components/web3/ReceiveCard'
 import { GasTracker } from './components/web3/GasTracker'
 import { CounterContract } from './components/web3/CounterContract'
+import { TransactionHistory } from './components/web3/TransactionHistory'
+import { AllowanceManager } from './components/web3/AllowanceManager'
+import { TypedDataSigner } from './components/web3/TypedDataSigner'
 import { Toaster } from './components/ui/sonner'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
 import { useWallet } from './hooks/web3/useWallet'
+import { usePaymentRequestFromUrl } from './hooks/web3/usePaymentRequest'
+import { useGasAlertMonitor } from './hooks/web3/useGasAlerts'
+import { usePaymentRequestStore } from './store/paymentRequestStore'
 import { 
   Wallet, 
   Send, 
   Coins, 
   Fuel, 
   Code,
-  Info
+  History,
+  Info,
+  QrCode
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card'
 import { Alert, AlertDescription } from './components/ui/alert'
-import { Suspense } from 'react'
+import { Suspense, useEffect, useState } from 'react'
 
 /**
  * Main content when wallet is connected
  */
 function ConnectedContent() {
+  const [tab, setTab] = useState('balances')
+  const paymentRequest = usePaymentRequestStore((state) => state.request)
+  usePaymentRequestFromUrl()
+
+  // Incoming payment requests are handled by the transfer form
+  useEffect(() => {
+    if (paymentRequest) setTab('transfer')
+  }, [paymentRequest])
+
   return (
     <div className="space-y-6">
       {/* Overview Section */}
@@ -43,8 +64,8 @@ function ConnectedContent() {
       </div>
 
       {/* Tabbed Interface */}
-      <Tabs defaultValue="balances" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+      <Tabs value={tab} onValueChange={setTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="balances" className="gap-2">
             <Coins className="h-4 w-4" />
             Balances
@@ -53,10 +74,18 @@ function ConnectedContent() {
             <Send className="h-4 w-4" />
             Transfer
           </TabsTrigger>
+          <TabsTrigger value="receive" className="gap-2">
+            <QrCode className="h-4 w-4" />
+            Receive
+          </TabsTrigger>
           <TabsTrigger value="contracts" className="gap-2">
             <Code className="h-4 w-4" />
             Contracts
           </TabsTrigger>
+          <TabsTrigger value="activity" className="gap-2">
+            <History className="h-4 w-4" />
+            Activity
+          </TabsTrigger>
           <TabsTrigger value="about" className="gap-2">
             <Info className="h-4 w-4" />
             About
@@ -64,19 +93,44 @@ function ConnectedContent() {
         </TabsList>
 
         <TabsContent value="balances" className="space-y-4">
+          <div className="max-w-2xl">
+            <PortfolioOverview />
+          </div>
           <Suspense fallback={<Card><CardContent className="p-6">Loading balances...</CardContent></Card>}>
             <TokenBalancesOverview />
           </Suspense>
+          <div className="max-w-2xl">
+            <TokenListManager />
+          </div>
         </TabsContent>
 
         <TabsContent value="transfer" className="space-y-4">
-          <div className="max-w-2xl">
+          <div className="max-w-2xl space-y-4">
             <TransferForm />
+            <AddressBookManager />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="receive" className="space-y-4">
+          <div className="max-w-2xl">
+            <ReceiveCard />
           </div>
         </TabsContent>
 
         <TabsContent value="contracts" className="space-y-4">
           <CounterContract />
+          <div className="max-w-2xl">
+            <TypedDataSigner />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="activity" className="space-y-4">
+          <div className="max-w-2xl">
+            <TransactionHistory />
+          </div>
+          <div className="max-w-2xl">
+            <AllowanceManager />
+          </div>
         </TabsContent>
 
         <TabsContent value="about" className="space-y-4">
@@ -237,6 +291,7 @@ function WelcomeScreen() {
  */
 function AppContent() {
   const { isConnected } = useWallet()
+  useGasAlertMonitor()
 
   return isConnected ? <ConnectedContent /> : <WelcomeScreen />
 }
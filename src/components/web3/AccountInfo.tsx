@@ -8,9 +8,11 @@
 
 import { useWallet } from '../../hooks/web3/useWallet'
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
-import { formatAddress } from '../../utils/formatters'
-import { User, Link as LinkIcon } from 'lucide-react'
+import { AddressDisplay } from './AddressDisplay'
+import { User, Link as LinkIcon, ShieldCheck, Loader2, LogOut } from 'lucide-react'
 import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { useSiwe } from '../../hooks/web3/useSiwe'
 import { getChainName, isTestnet } from '../../lib/web3/chains'
 
 /**
@@ -18,6 +20,16 @@ import { getChainName, isTestnet } from '../../lib/web3/chains'
  */
 export function AccountInfo() {
   const { address, chainId, isConnected, connector } = useWallet()
+  const { session, isAuthenticated, isSigningIn, signIn, signOut } = useSiwe()
+
+  const handleSignIn = async () => {
+    try {
+      await signIn()
+    } catch (error) {
+      // Failures are surfaced by useSiwe
+      console.error('Sign-in failed:', error)
+    }
+  }
 
   if (!isConnected || !address) {
     return (
@@ -49,7 +61,7 @@ export function AccountInfo() {
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <span className="text-sm text-muted-foreground">Address</span>
-            <code className="text-sm">{formatAddress(address)}</code>
+            <AddressDisplay address={address} showAvatar className="text-sm" />
           </div>
 
           <div className="flex items-center justify-between">
@@ -73,7 +85,37 @@ export function AccountInfo() {
               </div>
             </div>
           )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Session</span>
+            {isAuthenticated && session ? (
+              <Badge variant="default" className="gap-1 text-xs">
+                <ShieldCheck className="h-3 w-3" />
+                Signed in until {new Date(session.expiresAt).toLocaleTimeString()}
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="text-xs">
+                Not signed in
+              </Badge>
+            )}
+          </div>
         </div>
+
+        {isAuthenticated ? (
+          <Button variant="outline" size="sm" onClick={signOut} className="w-full gap-2">
+            <LogOut className="h-4 w-4" />
+            Sign Out
+          </Button>
+        ) : (
+          <Button size="sm" onClick={handleSignIn} disabled={isSigningIn} className="w-full gap-2">
+            {isSigningIn ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4" />
+            )}
+            {isSigningIn ? 'Signing In...' : 'Sign In with Ethereum'}
+          </Button>
+        )}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,280 @@
+/**
+ * Address Book Manager Component
+ *
+ * Saved contacts and recent recipients for the connected chain
+ */
+
+'use client'
+
+import { useState } from 'react'
+import type { Address } from 'viem'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { BookUser, Pencil, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner@2.0.3'
+import { useAddressBook } from '../../hooks/web3/useAddressBook'
+import { useAddressBookStore, getContactKey } from '../../store/addressBookStore'
+import { SUPPORTED_CHAINS } from '../../lib/web3/config'
+import { getChainName } from '../../lib/web3/chains'
+import { formatAddress, formatRelativeTime } from '../../utils/formatters'
+import type { AddressBookEntry } from '../../types/web3'
+import { AddressInput } from './AddressInput'
+
+/**
+ * Select value for contacts saved on every chain
+ */
+const ALL_CHAINS = 'all'
+
+interface ContactDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Contact being edited, or the address to prefill for a new one */
+  contact?: Partial<AddressBookEntry>
+  defaultChainId?: number
+}
+
+/**
+ * Dialog for adding or editing a contact
+ */
+function ContactDialog({ open, onOpenChange, contact, defaultChainId }: ContactDialogProps) {
+  const saveContact = useAddressBookStore((state) => state.saveContact)
+  const isEditing = !!contact?.createdAt
+  const [label, setLabel] = useState(contact?.label ?? '')
+  const [input, setInput] = useState<string>(contact?.address ?? '')
+  const [address, setAddress] = useState<Address>()
+  const [note, setNote] = useState(contact?.note ?? '')
+  const [scope, setScope] = useState(
+    String(isEditing ? contact?.chainId ?? ALL_CHAINS : defaultChainId ?? ALL_CHAINS)
+  )
+
+  const handleSave = () => {
+    if (!label.trim() || !address) return
+
+    saveContact(
+      {
+        address,
+        label: label.trim(),
+        note: note.trim() || undefined,
+        chainId: scope === ALL_CHAINS ? undefined : Number(scope),
+      },
+      isEditing && contact?.address ? getContactKey(contact.address, contact.chainId) : undefined
+    )
+    toast.success(isEditing ? 'Contact updated' : `Saved ${label.trim()}`)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Contact' : 'Add Contact'}</DialogTitle>
+          <DialogDescription>
+            Contacts are suggested when entering a recipient and labelled across the app
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contact-label">Label</Label>
+            <Input
+              id="contact-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Savings wallet"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-address">Address</Label>
+            <AddressInput
+              id="contact-address"
+              value={input}
+              onChange={setInput}
+              onResolve={setAddress}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-network">Network</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger id="contact-network">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CHAINS}>All networks</SelectItem>
+                {SUPPORTED_CHAINS.map((chain) => (
+                  <SelectItem key={chain.id} value={String(chain.id)}>
+                    {chain.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-note">Note</Label>
+            <Textarea
+              id="contact-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!label.trim() || !address}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * Address book card
+ */
+export function AddressBookManager() {
+  const { chainId, contacts, recents, getContact } = useAddressBook()
+  const removeContact = useAddressBookStore((state) => state.removeContact)
+  const clearRecents = useAddressBookStore((state) => state.clearRecents)
+  const [editing, setEditing] = useState<Partial<AddressBookEntry>>()
+
+  const unsavedRecents = recents.filter((recent) => !getContact(recent.address))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BookUser className="h-5 w-5" />
+            Address Book
+          </CardTitle>
+          <CardDescription>
+            {chainId ? `Contacts available on ${getChainName(chainId)}` : 'Saved contacts'}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setEditing({})}>
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {contacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved contacts</p>
+        ) : (
+          <div className="space-y-2">
+            {contacts.map((contact) => {
+              const key = getContactKey(contact.address, contact.chainId)
+              return (
+                <div key={key} className="flex items-center gap-3 p-3 rounded-lg border">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm truncate">{contact.label}</span>
+                      {contact.chainId === undefined && (
+                        <Badge variant="secondary" className="text-xs">
+                          All networks
+                        </Badge>
+                      )}
+                    </div>
+                    <code className="text-xs text-muted-foreground" title={contact.address}>
+                      {formatAddress(contact.address)}
+                    </code>
+                    {contact.note && (
+                      <p className="text-xs text-muted-foreground truncate">{contact.note}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditing(contact)}
+                    aria-label={`Edit ${contact.label}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeContact(key)}
+                    aria-label={`Remove ${contact.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {unsavedRecents.length > 0 && chainId && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Recent Recipients</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => clearRecents(chainId)}
+              >
+                Clear
+              </Button>
+            </div>
+            {unsavedRecents.map((recent) => (
+              <div
+                key={recent.address}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <code title={recent.address}>{formatAddress(recent.address)}</code>
+                <span className="flex-1 text-xs text-muted-foreground">
+                  {formatRelativeTime(recent.lastUsedAt / 1000)}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setEditing({ address: recent.address })}
+                >
+                  Save
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {editing && (
+        <ContactDialog
+          // Remount so the form starts from the selected contact
+          key={editing.createdAt ?? editing.address ?? 'new'}
+          open
+          onOpenChange={(open) => !open && setEditing(undefined)}
+          contact={editing}
+          defaultChainId={chainId}
+        />
+      )}
+    </Card>
+  )
+}
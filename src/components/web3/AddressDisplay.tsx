@@ -0,0 +1,42 @@
+/**
+ * Address Display Component
+ *
+ * Shows an address by its address book label or verified ENS name
+ */
+
+'use client'
+
+import type { Address } from 'viem'
+import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar'
+import { useEnsIdentity } from '../../hooks/web3/useEns'
+import { useAddressBook } from '../../hooks/web3/useAddressBook'
+import { formatAddress } from '../../utils/formatters'
+
+interface AddressDisplayProps {
+  address: Address
+  showAvatar?: boolean
+  className?: string
+}
+
+/**
+ * Contact label, ENS name or truncated address, with the full address on hover
+ */
+export function AddressDisplay({ address, showAvatar = false, className }: AddressDisplayProps) {
+  const { name, avatar } = useEnsIdentity(address)
+  const { getContact } = useAddressBook()
+  const label = getContact(address)?.label ?? name
+
+  return (
+    <span className={`inline-flex items-center gap-2 ${className ?? ''}`} title={address}>
+      {showAvatar && (
+        <Avatar className="h-5 w-5">
+          {avatar && <AvatarImage src={avatar} alt={label} />}
+          <AvatarFallback className="text-[10px]">
+            {(label ?? address.slice(2)).slice(0, 2).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+      )}
+      {label ?? formatAddress(address)}
+    </span>
+  )
+}
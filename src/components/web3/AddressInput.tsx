@@ -0,0 +1,128 @@
+/**
+ * Address Input Component
+ *
+ * Address field that accepts ENS names and shows what they resolve to
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Address } from 'viem'
+import { BookUser, CheckCircle, Clock, Loader2 } from 'lucide-react'
+import { Input } from '../ui/input'
+import { useEnsResolution } from '../../hooks/web3/useEns'
+import { useAddressBook } from '../../hooks/web3/useAddressBook'
+import { formatAddress } from '../../utils/formatters'
+
+interface AddressInputProps {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  /** Called with the resolved address, or undefined while unresolved or invalid */
+  onResolve: (address: Address | undefined) => void
+  placeholder?: string
+  disabled?: boolean
+  /** Offer contacts and recent recipients while typing */
+  showSuggestions?: boolean
+}
+
+/**
+ * Input for an address or ENS name
+ */
+export function AddressInput({
+  id,
+  value,
+  onChange,
+  onResolve,
+  placeholder = '0x... or name.eth',
+  disabled,
+  showSuggestions = false,
+}: AddressInputProps) {
+  const [isFocused, setIsFocused] = useState(false)
+  const { address, isName, isResolving, error } = useEnsResolution(value)
+  const { getContact, search } = useAddressBook()
+  const contact = address ? getContact(address) : undefined
+
+  const suggestions =
+    showSuggestions && isFocused && !contact
+      ? search(value)
+          .filter((suggestion) => suggestion.address.toLowerCase() !== value.trim().toLowerCase())
+          .slice(0, 6)
+      : []
+
+  useEffect(() => {
+    onResolve(address)
+  }, [address, onResolve])
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Input
+          id={id}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          disabled={disabled}
+          aria-invalid={!!error && !isResolving}
+          autoComplete="off"
+          spellCheck={false}
+        />
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute z-50 mt-1 w-full overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md"
+          >
+            {suggestions.map((suggestion) => (
+              <li
+                key={suggestion.address}
+                role="option"
+                aria-selected={false}
+                className="flex cursor-pointer items-center gap-2 px-3 py-2 text-sm hover:bg-accent"
+                // Select before the input blurs and hides the list
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  onChange(suggestion.address)
+                  setIsFocused(false)
+                }}
+              >
+                {suggestion.isRecent ? (
+                  <Clock className="h-3 w-3 text-muted-foreground" />
+                ) : (
+                  <BookUser className="h-3 w-3 text-muted-foreground" />
+                )}
+                <span className="flex-1 truncate">
+                  {suggestion.label ?? formatAddress(suggestion.address)}
+                </span>
+                {suggestion.label && (
+                  <code className="text-xs text-muted-foreground">
+                    {formatAddress(suggestion.address)}
+                  </code>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {isResolving ? (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Resolving name...
+        </p>
+      ) : error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : isName && address ? (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <CheckCircle className="h-3 w-3 text-green-600" />
+          <code className="break-all">{address}</code>
+        </p>
+      ) : contact ? (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <BookUser className="h-3 w-3" />
+          {contact.label}
+        </p>
+      ) : null}
+    </div>
+  )
+}
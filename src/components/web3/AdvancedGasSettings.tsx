@@ -0,0 +1,176 @@
+/**
+ * Advanced Gas Settings Component
+ *
+ * Collapsible panel for choosing a fee tier or custom fees, gas limit and nonce
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Alert, AlertDescription } from '../ui/alert'
+import { AlertTriangle, ChevronDown, Settings2 } from 'lucide-react'
+import { GAS_TIERS } from '../../lib/web3/gasOracle'
+import { GAS_MODE_LABELS, type GasSettings } from '../../lib/web3/gasSettings'
+import type { useGasSettings } from '../../hooks/web3/useGasSettings'
+import { formatDuration, formatGwei } from '../../utils/formatters'
+
+interface AdvancedGasSettingsProps {
+  id: string
+  gas: ReturnType<typeof useGasSettings>
+  disabled?: boolean
+}
+
+/**
+ * Advanced gas panel, collapsed by default
+ */
+export function AdvancedGasSettings({ id, gas, disabled }: AdvancedGasSettingsProps) {
+  const [open, setOpen] = useState(false)
+  const { settings, setSettings, oracle, error, warnings, estimatedGas } = gas
+  const isLegacy = oracle?.type === 'legacy'
+
+  const update = (changes: Partial<GasSettings>) =>
+    setSettings((current) => ({ ...current, ...changes }))
+
+  const tierFees =
+    settings.mode !== 'auto' && settings.mode !== 'custom'
+      ? oracle?.tiers[settings.mode]
+      : undefined
+  const summary = tierFees
+    ? `${GAS_MODE_LABELS[settings.mode]} · ${formatDuration(tierFees.estimatedSeconds)}`
+    : GAS_MODE_LABELS[settings.mode]
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-3">
+      <CollapsibleTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="w-full justify-between gap-2 px-2"
+        >
+          <span className="flex items-center gap-2">
+            <Settings2 className="h-4 w-4" />
+            Advanced gas settings
+          </span>
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            {summary}
+            <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </span>
+        </Button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-4 rounded-lg border p-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          className="w-full"
+          value={settings.mode}
+          onValueChange={(mode) => mode && update({ mode: mode as GasSettings['mode'] })}
+          disabled={disabled}
+        >
+          <ToggleGroupItem value="auto" className="flex-1 text-xs">
+            {GAS_MODE_LABELS.auto}
+          </ToggleGroupItem>
+          {GAS_TIERS.map((tier) => (
+            <ToggleGroupItem key={tier} value={tier} className="flex-1 flex-col h-auto py-1">
+              <span className="text-xs">{GAS_MODE_LABELS[tier]}</span>
+              {oracle && (
+                <span className="text-[10px] text-muted-foreground">
+                  {formatGwei(oracle.tiers[tier].gasPrice)} Gwei
+                </span>
+              )}
+            </ToggleGroupItem>
+          ))}
+          <ToggleGroupItem value="custom" className="flex-1 text-xs">
+            {GAS_MODE_LABELS.custom}
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {settings.mode === 'custom' && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor={`${id}-max-fee`} className="text-xs">
+                {isLegacy ? 'Gas price (Gwei)' : 'Max fee (Gwei)'}
+              </Label>
+              <Input
+                id={`${id}-max-fee`}
+                inputMode="decimal"
+                placeholder={oracle ? formatGwei(oracle.tiers.standard.maxFeePerGas) : ''}
+                value={settings.maxFeePerGas}
+                onChange={(e) => update({ maxFeePerGas: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            {!isLegacy && (
+              <div className="space-y-1">
+                <Label htmlFor={`${id}-priority-fee`} className="text-xs">
+                  Priority fee (Gwei)
+                </Label>
+                <Input
+                  id={`${id}-priority-fee`}
+                  inputMode="decimal"
+                  placeholder={
+                    oracle ? formatGwei(oracle.tiers.standard.maxPriorityFeePerGas) : ''
+                  }
+                  value={settings.maxPriorityFeePerGas}
+                  onChange={(e) => update({ maxPriorityFeePerGas: e.target.value })}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-gas-limit`} className="text-xs">
+              Gas limit
+            </Label>
+            <Input
+              id={`${id}-gas-limit`}
+              inputMode="numeric"
+              placeholder={estimatedGas !== undefined ? estimatedGas.toString() : 'Auto'}
+              value={settings.gasLimit}
+              onChange={(e) => update({ gasLimit: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-nonce`} className="text-xs">
+              Nonce
+            </Label>
+            <Input
+              id={`${id}-nonce`}
+              inputMode="numeric"
+              placeholder="Auto"
+              value={settings.nonce}
+              onChange={(e) => update({ nonce: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {warnings.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc space-y-1 pl-4 text-xs">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
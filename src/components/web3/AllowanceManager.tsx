@@ -0,0 +1,250 @@
+/**
+ * Allowance Manager Component
+ *
+ * Lists active ERC20 approvals and revokes or reduces them in bulk
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Checkbox } from '../ui/checkbox'
+import { Input } from '../ui/input'
+import { Skeleton } from '../ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { ExternalLink, Loader2, RefreshCw, ShieldOff, ShieldCheck } from 'lucide-react'
+import {
+  useAllowances,
+  useUpdateAllowances,
+  getAllowanceKey,
+  type TokenAllowance,
+} from '../../hooks/web3/useAllowances'
+import { useWallet } from '../../hooks/web3/useWallet'
+import { getAddressExplorerUrl } from '../../lib/web3/chains'
+import { APPROVAL_LOOKBACKS, type ApprovalLookback } from '../../lib/web3/approvals'
+import { AddressDisplay } from './AddressDisplay'
+import { formatTokenBalance, parseTokenAmount } from '../../utils/formatters'
+import { toast } from 'sonner@2.0.3'
+
+/**
+ * Label for a scan lookback choice
+ */
+function formatLookback(lookback: ApprovalLookback): string {
+  if (lookback === 'all') return 'All history'
+  return lookback === 365 ? 'Last year' : `Last ${lookback} days`
+}
+
+/**
+ * Token approvals card
+ */
+export function AllowanceManager() {
+  const { chainId } = useWallet()
+  const [lookback, setLookback] = useState<ApprovalLookback>(365)
+  const { allowances, scannedRange, isLoading, isFetching, error, refetch } = useAllowances({
+    lookback,
+  })
+  const { updateAllowances, submitted, isUpdating } = useUpdateAllowances()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [reduceTo, setReduceTo] = useState('')
+
+  const selectedAllowances = allowances.filter((allowance) =>
+    selected.has(getAllowanceKey(allowance.token, allowance.spender))
+  )
+  const allSelected = allowances.length > 0 && selectedAllowances.length === allowances.length
+
+  const toggle = (allowance: TokenAllowance) => {
+    const key = getAllowanceKey(allowance.token, allowance.spender)
+    setSelected((previous) => {
+      const next = new Set(previous)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(
+      allSelected
+        ? new Set()
+        : new Set(allowances.map((allowance) => getAllowanceKey(allowance.token, allowance.spender)))
+    )
+  }
+
+  const submit = async (mode: 'revoke' | 'reduce') => {
+    if (mode === 'reduce' && (!reduceTo || parseFloat(reduceTo) < 0)) {
+      toast.error('Enter an amount to reduce to')
+      return
+    }
+
+    const updates = selectedAllowances
+      .map((allowance) => ({
+        token: allowance.token,
+        spender: allowance.spender,
+        amount: mode === 'revoke' ? 0n : parseTokenAmount(reduceTo, allowance.decimals),
+      }))
+      // Only lower allowances; never raise one by accident
+      .filter((update, index) => update.amount < selectedAllowances[index].allowance)
+
+    if (updates.length === 0) {
+      toast.error('Selected allowances are already at or below that amount')
+      return
+    }
+
+    try {
+      const hashes = await updateAllowances(updates)
+      toast.success(`Submitted ${hashes.length} approval update${hashes.length === 1 ? '' : 's'}`)
+      setSelected(new Set())
+    } catch (error) {
+      // Failures are surfaced by useContractWrite
+      console.error('Allowance update failed:', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Token Approvals
+          </CardTitle>
+          <CardDescription>
+            Contracts allowed to spend your tokens, found from Approval events
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {scannedRange
+              ? `Scanned blocks ${scannedRange.fromBlock.toLocaleString()} to ${scannedRange.toBlock.toLocaleString()}`
+              : 'Scanning approvals...'}
+          </span>
+          <Select
+            value={String(lookback)}
+            onValueChange={(value) => setLookback(value === 'all' ? 'all' : Number(value))}
+            disabled={isFetching}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs" aria-label="Scan range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {APPROVAL_LOOKBACKS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {formatLookback(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Could not scan approvals: {error.message}</p>
+        ) : allowances.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active approvals found</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Checkbox checked={allSelected} onCheckedChange={toggleAll} aria-label="Select all" />
+              {selectedAllowances.length} of {allowances.length} selected
+            </div>
+
+            <div className="space-y-2">
+              {allowances.map((allowance) => {
+                const key = getAllowanceKey(allowance.token, allowance.spender)
+                return (
+                  <div key={key} className="flex items-center gap-3 p-3 rounded-lg border">
+                    <Checkbox
+                      checked={selected.has(key)}
+                      onCheckedChange={() => toggle(allowance)}
+                      aria-label={`Select ${allowance.symbol} approval`}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm">{allowance.symbol}</span>
+                        {allowance.isUnlimited ? (
+                          <Badge variant="destructive" className="text-xs">
+                            Unlimited
+                          </Badge>
+                        ) : (
+                          <span className="text-sm">
+                            {formatTokenBalance(allowance.allowance, allowance.decimals)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          Spender <AddressDisplay address={allowance.spender} />
+                          {chainId && getAddressExplorerUrl(chainId, allowance.spender) && (
+                            <a
+                              href={getAddressExplorerUrl(chainId, allowance.spender)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              aria-label="View spender on explorer"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          )}
+                        </span>
+                        {submitted[key] && <span>Update pending</span>}
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button
+                variant="destructive"
+                className="gap-2"
+                onClick={() => submit('revoke')}
+                disabled={isUpdating || selectedAllowances.length === 0}
+              >
+                {isUpdating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <ShieldOff className="h-4 w-4" />
+                )}
+                Revoke selected
+              </Button>
+              <div className="flex flex-1 gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="New allowance"
+                  value={reduceTo}
+                  onChange={(e) => setReduceTo(e.target.value)}
+                  disabled={isUpdating}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => submit('reduce')}
+                  disabled={isUpdating || selectedAllowances.length === 0}
+                >
+                  Reduce
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
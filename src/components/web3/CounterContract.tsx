@@ -6,16 +6,20 @@
 
 'use client'
 
-import { useEffect } from 'react'
+import { useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui/card'
 import { Button } from '../ui/button'
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert'
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt, useWatchContractEvent } from 'wagmi'
+import { useReadContract, useWatchContractEvent } from 'wagmi'
+import type { Abi } from 'viem'
 import { COUNTER_ABI, COUNTER_ADDRESS } from '../../contracts/abis/Counter'
 import { toast } from 'sonner@2.0.3'
 import { Plus, Minus, Loader2, Activity, AlertTriangle } from 'lucide-react'
-import { parseWeb3Error } from '../../lib/utils/errors'
 import { useWallet } from '../../hooks/web3/useWallet'
+import { useContractWrite } from '../../hooks/web3/useContractWrite'
+import { useContractGasEstimate } from '../../hooks/web3/useGasEstimation'
+import { useGasSettings } from '../../hooks/web3/useGasSettings'
+import { AdvancedGasSettings } from './AdvancedGasSettings'
 import { sepolia } from 'wagmi/chains'
 
 // The Counter contract is deployed on Sepolia testnet
@@ -40,22 +44,27 @@ export function CounterContract() {
     },
   })
 
-  // Write contract functions
-  const { 
-    writeContractAsync, 
-    data: hash, 
-    isPending: isWriting,
-    error: writeError,
-  } = useWriteContract()
+  // Both actions cost about the same, so the increment estimate covers either
+  const { gasLimit: estimatedGas } = useContractGasEstimate(
+    isCorrectNetwork ? COUNTER_ADDRESS : undefined,
+    COUNTER_ABI as Abi,
+    'increament'
+  )
+  const gas = useGasSettings(estimatedGas)
+  const { clearNonce } = gas
 
-  // Wait for transaction confirmation
-  const { 
-    isLoading: isConfirming, 
-    isSuccess: isConfirmed,
-    error: confirmError,
-  } = useWaitForTransactionReceipt({
-    hash,
-  })
+  // Stable options so the confirmation handler runs once per transaction
+  const writeOptions = useMemo(
+    () => ({
+      onSuccess: () => clearNonce(),
+      // Refetch the counter value after confirmation
+      onConfirmed: () => refetchValue(),
+    }),
+    [clearNonce, refetchValue]
+  )
+
+  // Write contract functions, with confirmation and error toasts
+  const { write, isPending: isWriting, isSimulating, isConfirming } = useContractWrite(writeOptions)
 
   // Watch for Increment events (only on correct network)
   useWatchContractEvent({
@@ -91,38 +100,6 @@ export function CounterContract() {
     },
   })
 
-  // Handle transaction confirmation and refetch value
-  useEffect(() => {
-    if (isConfirmed && hash) {
-      // Dismiss the loading toast and show success
-      toast.dismiss(hash)
-      toast.success('Transaction Confirmed!', {
-        description: `Hash: ${hash.slice(0, 10)}...${hash.slice(-8)}`,
-      })
-      // Refetch the counter value after confirmation
-      refetchValue()
-    }
-  }, [isConfirmed, hash, refetchValue])
-
-  // Handle transaction errors
-  useEffect(() => {
-    if (writeError) {
-      // Dismiss any loading toasts
-      if (hash) toast.dismiss(hash)
-      const message = parseWeb3Error(writeError)
-      toast.error('Transaction Failed', {
-        description: message,
-      })
-    }
-    if (confirmError) {
-      // Dismiss any loading toasts
-      if (hash) toast.dismiss(hash)
-      toast.error('Confirmation Failed', {
-        description: confirmError.message,
-      })
-    }
-  }, [writeError, confirmError, hash])
-
   // Increment function
   const handleIncrement = async () => {
     if (!isCorrectNetwork) {
@@ -132,19 +109,15 @@ export function CounterContract() {
       return
     }
     
+    if (gas.error) {
+      toast.error(gas.error)
+      return
+    }
+
     try {
-      const txHash = await writeContractAsync({
-        address: COUNTER_ADDRESS,
-        abi: COUNTER_ABI,
-        functionName: 'increament',
-        chainId: REQUIRED_CHAIN_ID,
-      })
-      toast.loading('Transaction Submitted', {
-        description: 'Waiting for confirmation...',
-        id: txHash, // Use hash as ID so we can dismiss it later
-      })
+      await write(COUNTER_ADDRESS, COUNTER_ABI as Abi, 'increament', [], undefined, gas.overrides)
     } catch (error) {
-      // Error is handled by useEffect above
+      // Error toast is shown by useContractWrite
       console.error('Increment error:', error)
     }
   }
@@ -158,19 +131,15 @@ export function CounterContract() {
       return
     }
     
+    if (gas.error) {
+      toast.error(gas.error)
+      return
+    }
+
     try {
-      const txHash = await writeContractAsync({
-        address: COUNTER_ADDRESS,
-        abi: COUNTER_ABI,
-        functionName: 'decreament',
-        chainId: REQUIRED_CHAIN_ID,
-      })
-      toast.loading('Transaction Submitted', {
-        description: 'Waiting for confirmation...',
-        id: txHash, // Use hash as ID so we can dismiss it later
-      })
+      await write(COUNTER_ADDRESS, COUNTER_ABI as Abi, 'decreament', [], undefined, gas.overrides)
     } catch (error) {
-      // Error is handled by useEffect above
+      // Error toast is shown by useContractWrite
       console.error('Decrement error:', error)
     }
   }
@@ -189,7 +158,7 @@ export function CounterContract() {
     }
   }
 
-  const isLoading = isWriting || isConfirming
+  const isLoading = isSimulating || isWriting || isConfirming
 
   return (
     <div className="grid gap-6 lg:grid-cols-2">
@@ -255,7 +224,7 @@ export function CounterContract() {
             size="lg"
             className="gap-2"
           >
-            {isLoading && isWriting ? (
+            {isSimulating || isWriting ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <Plus className="h-4 w-4" />
@@ -270,7 +239,7 @@ export function CounterContract() {
             size="lg"
             className="gap-2"
           >
-            {isLoading && isWriting ? (
+            {isSimulating || isWriting ? (
               <Loader2 className="h-4 w-4 animate-spin" />
             ) : (
               <Minus className="h-4 w-4" />
@@ -279,6 +248,12 @@ export function CounterContract() {
           </Button>
         </div>
 
+        <AdvancedGasSettings
+          id="counter-gas"
+          gas={gas}
+          disabled={isLoading || !isConnected || !isCorrectNetwork}
+        />
+
         {/* Status Indicator */}
         {isConfirming && (
           <div className="text-center text-sm text-muted-foreground flex items-center justify-center gap-2">
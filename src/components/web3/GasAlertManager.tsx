@@ -0,0 +1,176 @@
+/**
+ * Gas Alert Manager Component
+ *
+ * Create and manage "notify me when base fee < X Gwei" alerts per chain
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { parseUnits } from 'viem'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { Bell, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner@2.0.3'
+import { useWallet } from '../../hooks/web3/useWallet'
+import { useGasAlertStore } from '../../store/gasAlertStore'
+import { SUPPORTED_CHAINS } from '../../lib/web3/config'
+import { getChainName } from '../../lib/web3/chains'
+import { getRearmThreshold } from '../../lib/web3/gasAlerts'
+import { formatGwei, formatRelativeTime } from '../../utils/formatters'
+import { requestNotificationPermission } from '../../utils/notifications'
+import type { GasAlert } from '../../types/web3'
+
+/**
+ * Parse a Gwei amount entered by the user
+ * @returns Threshold in wei, or undefined if invalid or not positive
+ */
+function parseThreshold(value: string): bigint | undefined {
+  try {
+    const threshold = parseUnits(value.trim(), 9)
+    return threshold > 0n ? threshold : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * One saved alert
+ */
+function GasAlertRow({ alert }: { alert: GasAlert }) {
+  const setEnabled = useGasAlertStore((state) => state.setEnabled)
+  const removeAlert = useGasAlertStore((state) => state.removeAlert)
+
+  const status = !alert.enabled
+    ? 'Paused'
+    : alert.armed
+      ? 'Watching'
+      : `Fired ${formatRelativeTime(Math.floor((alert.lastTriggeredAt ?? Date.now()) / 1000)).toLowerCase()}, re-arms above ${formatGwei(getRearmThreshold(alert.threshold))} Gwei`
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 rounded-lg border text-sm">
+      <div className="min-w-0">
+        <div>
+          {getChainName(alert.chainId)}: base fee &lt; {formatGwei(alert.threshold)} Gwei
+        </div>
+        <div className="text-xs text-muted-foreground">{status}</div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={alert.enabled}
+          onCheckedChange={(checked) => setEnabled(alert.id, checked)}
+          aria-label="Enable alert"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => removeAlert(alert.id)}
+          aria-label="Delete alert"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Gas alert form and list
+ */
+export function GasAlertManager() {
+  const { chainId: connectedChainId } = useWallet()
+  const alerts = useGasAlertStore((state) => state.alerts)
+  const addAlert = useGasAlertStore((state) => state.addAlert)
+  const [chainId, setChainId] = useState(connectedChainId)
+  const [value, setValue] = useState('')
+
+  const targetChainId = chainId ?? connectedChainId
+  const threshold = parseThreshold(value)
+  const showError = value.trim() !== '' && threshold === undefined
+
+  const handleAdd = async () => {
+    if (!targetChainId || threshold === undefined) return
+
+    addAlert(targetChainId, threshold)
+    setValue('')
+    toast.success(
+      `You'll be notified when the ${getChainName(targetChainId)} base fee drops below ${formatGwei(threshold)} Gwei`
+    )
+
+    const permission = await requestNotificationPermission()
+    if (permission === 'denied') {
+      toast.info('Browser notifications are blocked, so alerts will only appear in the app')
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Bell className="h-4 w-4" />
+        Alerts
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="gas-alert-network" className="text-xs">
+            Network
+          </Label>
+          <Select
+            value={targetChainId ? String(targetChainId) : undefined}
+            onValueChange={(next) => setChainId(Number(next))}
+          >
+            <SelectTrigger id="gas-alert-network">
+              <SelectValue placeholder="Select network" />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_CHAINS.map((chain) => (
+                <SelectItem key={chain.id} value={String(chain.id)}>
+                  {chain.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 w-28">
+          <Label htmlFor="gas-alert-threshold" className="text-xs">
+            Below (Gwei)
+          </Label>
+          <Input
+            id="gas-alert-threshold"
+            inputMode="decimal"
+            placeholder="10"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            aria-invalid={showError}
+          />
+        </div>
+        <Button
+          size="icon"
+          onClick={handleAdd}
+          disabled={!targetChainId || threshold === undefined}
+          aria-label="Add alert"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {showError && <p className="text-xs text-destructive">Enter a positive Gwei amount</p>}
+
+      {alerts.length > 0 && (
+        <div className="space-y-2">
+          {alerts.map((alert) => (
+            <GasAlertRow key={alert.id} alert={alert} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+/**
+ * Gas History Chart Component
+ *
+ * Rolling base and priority fees per block with min/median/max annotations
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { formatUnits } from 'viem'
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts@2.15.2'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '../ui/chart'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
+import { Skeleton } from '../ui/skeleton'
+import { useGasHistory } from '../../hooks/web3/useGasHistory'
+import {
+  GAS_HISTORY_WINDOWS,
+  summarizeGasHistory,
+  type GasHistorySummary,
+  type GasHistoryWindow,
+} from '../../lib/web3/gasHistory'
+import { formatGwei } from '../../utils/formatters'
+
+const chartConfig = {
+  baseFee: { label: 'Base fee', color: 'var(--chart-1)' },
+  priorityFee: { label: 'Priority fee', color: 'var(--chart-2)' },
+} satisfies ChartConfig
+
+/**
+ * Convert wei to a Gwei number for plotting
+ */
+function toGwei(value: bigint): number {
+  return Number(formatUnits(value, 9))
+}
+
+/**
+ * Min/median/max row for one series
+ */
+function SummaryRow({ label, summary }: { label: string; summary?: GasHistorySummary }) {
+  if (!summary) return null
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      <span>
+        {formatGwei(summary.min)} / {formatGwei(summary.median)} / {formatGwei(summary.max)} Gwei
+      </span>
+    </div>
+  )
+}
+
+/**
+ * Fee history chart with a selectable block window
+ */
+export function GasHistoryChart() {
+  const { history, isLoading, error } = useGasHistory()
+  const [blockWindow, setBlockWindow] = useState<GasHistoryWindow>(GAS_HISTORY_WINDOWS[0])
+
+  if (isLoading) return <Skeleton className="h-48 w-full" />
+
+  // Legacy chains report no base fee
+  const points = history.slice(-blockWindow)
+  if (points.length === 0 || points.every((point) => point.baseFeePerGas === 0n)) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Fee history is not available on this network.
+      </p>
+    )
+  }
+
+  const baseFee = summarizeGasHistory(points.map((point) => point.baseFeePerGas))
+  const priorityFee = summarizeGasHistory(points.map((point) => point.priorityFeePerGas))
+  const data = points.map((point) => ({
+    block: point.blockNumber.toString(),
+    baseFee: toGwei(point.baseFeePerGas),
+    priorityFee: toGwei(point.priorityFeePerGas),
+  }))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">History (Gwei)</span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={String(blockWindow)}
+          onValueChange={(value) => value && setBlockWindow(Number(value) as GasHistoryWindow)}
+        >
+          {GAS_HISTORY_WINDOWS.map((blocks) => (
+            <ToggleGroupItem key={blocks} value={String(blocks)} className="text-xs">
+              {blocks} blocks
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <LineChart data={data} margin={{ left: 0, right: 8, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="block" tickLine={false} axisLine={false} minTickGap={32} />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(block) => `Block ${block}`} />}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {baseFee &&
+            (['min', 'median', 'max'] as const).map((key) => (
+              <ReferenceLine
+                key={key}
+                y={toGwei(baseFee[key])}
+                stroke="var(--color-baseFee)"
+                strokeDasharray="3 3"
+                strokeOpacity={0.5}
+                label={{ value: key, position: 'insideTopRight', fontSize: 10 }}
+              />
+            ))}
+          <Line
+            dataKey="baseFee"
+            type="monotone"
+            stroke="var(--color-baseFee)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            dataKey="priorityFee"
+            type="monotone"
+            stroke="var(--color-priorityFee)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ChartContainer>
+
+      {error && (
+        <p className="text-xs text-muted-foreground">
+          Could not load the latest blocks; retrying on the next block.
+        </p>
+      )}
+
+      <div className="space-y-1 text-xs">
+        <div className="flex justify-end text-muted-foreground">min / median / max</div>
+        <SummaryRow label="Base fee" summary={baseFee} />
+        <SummaryRow label="Priority fee" summary={priorityFee} />
+      </div>
+    </div>
+  )
+}
@@ -6,19 +6,54 @@
 
 'use client'
 
-import { useCurrentGasPrice, useGasPrices } from '../../hooks/web3/useGasEstimation'
+import { zeroAddress } from 'viem'
+import { useChainId } from 'wagmi'
+import {
+  useCurrentGasPrice,
+  useGasPrices,
+  useTransactionGasEstimate,
+} from '../../hooks/web3/useGasEstimation'
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
 import { Skeleton } from '../ui/skeleton'
-import { formatGwei } from '../../utils/formatters'
+import { usePrices } from '../../hooks/web3/usePrices'
+import { formatDuration, formatGwei, formatTokenBalance, formatUSD } from '../../utils/formatters'
+import type { BaseFeeTrend, GasTierFees } from '../../lib/web3/gasOracle'
+import { getL2FeeModel } from '../../lib/web3/l2Fees'
+import { getNativeCurrency } from '../../lib/web3/chains'
 import { Fuel, TrendingUp, TrendingDown, Minus } from 'lucide-react'
 import { Badge } from '../ui/badge'
+import { UsdValue } from './UsdValue'
+import { GasHistoryChart } from './GasHistoryChart'
+import { GasAlertManager } from './GasAlertManager'
+
+/**
+ * Gas used by a plain native transfer
+ */
+const TRANSFER_GAS = 21000n
+
+const TREND_LABELS: Record<BaseFeeTrend, string> = {
+  rising: 'Rising',
+  falling: 'Falling',
+  stable: 'Stable',
+}
 
 /**
  * Gas price display component
  */
 export function GasTracker() {
   const { gasPrice, isLoading, error } = useCurrentGasPrice()
-  const { slow, standard, fast, isLoading: isPricesLoading } = useGasPrices()
+  const { tiers, baseFee, baseFeeTrend, isEip1559, isLoading: isPricesLoading } = useGasPrices()
+  const { getQuote, getUsdValue } = usePrices(['native'])
+  const nativeQuote = getQuote('native')
+  const transferCost = (price: bigint) => getUsdValue('native', price * TRANSFER_GAS, 18)
+
+  // On rollups a plain transfer also pays for its L1 data
+  const chainId = useChainId()
+  const isRollup = !!getL2FeeModel(chainId)
+  const { l2ExecutionCost, l1DataFee } = useTransactionGasEstimate(
+    isRollup ? zeroAddress : undefined,
+    0n
+  )
 
   // Show loading state
   if (isLoading || isPricesLoading) {
@@ -88,27 +123,75 @@ export function GasTracker() {
             </div>
           </div>
 
+          {isEip1559 && baseFee !== undefined && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Next base fee</span>
+              <span>
+                {formatGwei(baseFee)} Gwei
+                {baseFeeTrend && (
+                  <span className="text-muted-foreground"> · {TREND_LABELS[baseFeeTrend]}</span>
+                )}
+              </span>
+            </div>
+          )}
+
+          {nativeQuote && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Transfer cost (21k gas)</span>
+              <UsdValue value={transferCost(gasPrice)} quote={nativeQuote} />
+            </div>
+          )}
+
+          {l2ExecutionCost !== undefined && l1DataFee !== undefined && (
+            <div className="space-y-1 text-xs">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Transfer L2 execution</span>
+                <span>
+                  {formatTokenBalance(l2ExecutionCost, 18, 8)} {getNativeCurrency(chainId)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Transfer L1 data fee</span>
+                <span>
+                  {formatTokenBalance(l1DataFee, 18, 8)} {getNativeCurrency(chainId)}
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Gas Speed Options */}
-          <div className="grid grid-cols-3 gap-2">
-            <GasSpeedCard
-              label="Slow"
-              gasPrice={slow}
-              icon={<TrendingDown className="h-4 w-4" />}
-              variant="secondary"
-            />
-            <GasSpeedCard
-              label="Standard"
-              gasPrice={standard}
-              icon={<Minus className="h-4 w-4" />}
-              variant="default"
-            />
-            <GasSpeedCard
-              label="Fast"
-              gasPrice={fast}
-              icon={<TrendingUp className="h-4 w-4" />}
-              variant="destructive"
-            />
-          </div>
+          {tiers && (
+            <div className="grid grid-cols-3 gap-2">
+              <GasSpeedCard
+                label="Slow"
+                fees={tiers.slow}
+                showMaxFee={isEip1559}
+                usdCost={transferCost(tiers.slow.gasPrice)}
+                icon={<TrendingDown className="h-4 w-4" />}
+                variant="secondary"
+              />
+              <GasSpeedCard
+                label="Standard"
+                fees={tiers.standard}
+                showMaxFee={isEip1559}
+                usdCost={transferCost(tiers.standard.gasPrice)}
+                icon={<Minus className="h-4 w-4" />}
+                variant="default"
+              />
+              <GasSpeedCard
+                label="Fast"
+                fees={tiers.fast}
+                showMaxFee={isEip1559}
+                usdCost={transferCost(tiers.fast.gasPrice)}
+                icon={<TrendingUp className="h-4 w-4" />}
+                variant="destructive"
+              />
+            </div>
+          )}
+
+          <GasHistoryChart />
+
+          <GasAlertManager />
         </div>
       </CardContent>
     </Card>
@@ -120,12 +203,15 @@ export function GasTracker() {
  */
 interface GasSpeedCardProps {
   label: string
-  gasPrice: bigint
+  fees: GasTierFees
+  /** Show the EIP-1559 fee cap and tip */
+  showMaxFee: boolean
+  usdCost?: number
   icon: React.ReactNode
   variant: 'default' | 'secondary' | 'destructive'
 }
 
-function GasSpeedCard({ label, gasPrice, icon, variant }: GasSpeedCardProps) {
+function GasSpeedCard({ label, fees, showMaxFee, usdCost, icon, variant }: GasSpeedCardProps) {
   return (
     <div className="flex flex-col items-center gap-1 p-3 rounded-lg border">
       <div className="flex items-center gap-1">
@@ -134,8 +220,22 @@ function GasSpeedCard({ label, gasPrice, icon, variant }: GasSpeedCardProps) {
           {label}
         </Badge>
       </div>
-      <span className="text-sm">{formatGwei(gasPrice)}</span>
+      <span className="text-sm">{formatGwei(fees.gasPrice)}</span>
       <span className="text-xs text-muted-foreground">Gwei</span>
+      <span className="text-xs text-muted-foreground">
+        {formatDuration(fees.estimatedSeconds)}
+      </span>
+      {usdCost !== undefined && (
+        <span className="text-xs text-muted-foreground">{formatUSD(usdCost)}</span>
+      )}
+      {showMaxFee && (
+        <span
+          className="text-[10px] text-muted-foreground text-center"
+          title="Max fee / priority fee in Gwei"
+        >
+          max {formatGwei(fees.maxFeePerGas)} / tip {formatGwei(fees.maxPriorityFeePerGas)}
+        </span>
+      )}
     </div>
   )
 }
@@ -0,0 +1,183 @@
+/**
+ * Import Token Dialog Component
+ *
+ * Add an ERC20 token by contract address after verifying it on-chain
+ */
+
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Label } from '../ui/label'
+import { Checkbox } from '../ui/checkbox'
+import { Alert, AlertDescription } from '../ui/alert'
+import { AlertTriangle, Loader2, Plus, XCircle } from 'lucide-react'
+import type { Address } from 'viem'
+import { toast } from 'sonner@2.0.3'
+import { useTokenInfo } from '../../hooks/web3/useTokenBalance'
+import { useTokenList } from '../../hooks/web3/useTokenList'
+import { useCustomTokenStore } from '../../store/customTokenStore'
+import { AddressInput } from './AddressInput'
+
+/**
+ * Dialog for importing a custom ERC20 token on the active chain
+ */
+export function ImportTokenDialog() {
+  const [open, setOpen] = useState(false)
+  const [input, setInput] = useState('')
+  const [address, setAddress] = useState<Address>()
+  const [acknowledged, setAcknowledged] = useState(false)
+
+  const { chainId, tokens, isListed } = useTokenList()
+  const addToken = useCustomTokenStore((state) => state.addToken)
+
+  const { name, symbol, decimals, isLoading, isContract, isERC20 } = useTokenInfo(address)
+
+  const isAlreadyAdded =
+    !!address && tokens.some((token) => token.address.toLowerCase() === address.toLowerCase())
+  const isUnlisted = !!address && !isListed(address)
+  const canImport =
+    !!address && !!chainId && !isLoading && isERC20 && !isAlreadyAdded && (!isUnlisted || acknowledged)
+
+  const reset = () => {
+    setInput('')
+    setAcknowledged(false)
+  }
+
+  const handleImport = () => {
+    if (!canImport || !address || !chainId) return
+
+    addToken({
+      chainId,
+      address,
+      name: name || symbol!,
+      symbol: symbol!,
+      decimals: decimals!,
+    })
+    toast.success(`Imported ${symbol}`)
+    reset()
+    setOpen(false)
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (!next) reset()
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Plus className="h-4 w-4" />
+          Import token
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Token</DialogTitle>
+          <DialogDescription>
+            Add an ERC20 token on this network by its contract address
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-token-address">Token Address</Label>
+            <AddressInput
+              id="import-token-address"
+              value={input}
+              onChange={(value) => {
+                setInput(value)
+                setAcknowledged(false)
+              }}
+              onResolve={setAddress}
+            />
+          </div>
+
+          {address && isLoading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking contract...
+            </div>
+          )}
+
+          {address && !isLoading && !isContract && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>No contract is deployed at this address</AlertDescription>
+            </Alert>
+          )}
+
+          {address && !isLoading && isContract && !isERC20 && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>
+                This contract does not implement ERC20 symbol and decimals
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {address && !isLoading && isERC20 && (
+            <div className="space-y-1 p-3 rounded-lg bg-muted text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Name</span>
+                <span>{name || '—'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Symbol</span>
+                <span>{symbol}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Decimals</span>
+                <span>{decimals}</span>
+              </div>
+            </div>
+          )}
+
+          {address && !isLoading && isERC20 && isAlreadyAdded && (
+            <p className="text-sm text-muted-foreground">This token is already in your list</p>
+          )}
+
+          {address && !isLoading && isERC20 && !isAlreadyAdded && isUnlisted && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="space-y-3">
+                <p>
+                  This token is not on any of your token lists. Anyone can create a token with
+                  any name, including fake versions of existing tokens.
+                </p>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="import-token-acknowledge"
+                    checked={acknowledged}
+                    onCheckedChange={(checked) => setAcknowledged(checked === true)}
+                  />
+                  <Label htmlFor="import-token-acknowledge">I understand the risk</Label>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,105 @@
+/**
+ * Look-alike Warning Component
+ *
+ * Blocking warning shown when a recipient imitates a known address
+ */
+
+'use client'
+
+import type { Address } from 'viem'
+import { getAddress } from 'viem'
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert'
+import { Checkbox } from '../ui/checkbox'
+import { Label } from '../ui/label'
+import { ShieldAlert } from 'lucide-react'
+import { getDifferingCharacters, type KnownAddress } from '../../lib/web3/addressPoisoning'
+
+interface LookalikeWarningProps {
+  id: string
+  recipient: Address
+  matches: KnownAddress[]
+  acknowledged: boolean
+  onAcknowledgedChange: (acknowledged: boolean) => void
+}
+
+const SOURCE_LABELS: Record<KnownAddress['source'], string> = {
+  contact: 'Saved contact',
+  recent: 'Recent recipient',
+  history: 'Previous transaction',
+}
+
+/**
+ * Address with the characters that differ from another address highlighted
+ */
+function HighlightedAddress({ address, compareTo }: { address: Address; compareTo: Address }) {
+  const differs = getDifferingCharacters(address, compareTo)
+
+  return (
+    <code className="block break-all text-xs">
+      {Array.from(address, (char, index) =>
+        differs[index] ? (
+          <mark key={index} className="bg-destructive/20 text-destructive rounded-sm">
+            {char}
+          </mark>
+        ) : (
+          <span key={index}>{char}</span>
+        )
+      )}
+    </code>
+  )
+}
+
+/**
+ * Side-by-side comparison of the recipient and each address it imitates
+ */
+export function LookalikeWarning({
+  id,
+  recipient,
+  matches,
+  acknowledged,
+  onAcknowledgedChange,
+}: LookalikeWarningProps) {
+  if (matches.length === 0) return null
+
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>Possible address poisoning</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          This recipient starts and ends like an address you already know, but the middle is
+          different. Scammers send dust from look-alike addresses so they show up in your
+          history. Compare every character before sending.
+        </p>
+
+        {matches.map((match) => {
+          const known = getAddress(match.address)
+          return (
+            <div key={known} className="grid gap-2 sm:grid-cols-2">
+              <div className="space-y-1 rounded-md border p-2">
+                <p className="text-xs font-medium">Sending to</p>
+                <HighlightedAddress address={recipient} compareTo={known} />
+              </div>
+              <div className="space-y-1 rounded-md border p-2">
+                <p className="text-xs font-medium">
+                  {match.label ? `${match.label} · ` : ''}
+                  {SOURCE_LABELS[match.source]}
+                </p>
+                <HighlightedAddress address={known} compareTo={recipient} />
+              </div>
+            </div>
+          )
+        })}
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={id}
+            checked={acknowledged}
+            onCheckedChange={(checked) => onAcknowledgedChange(checked === true)}
+          />
+          <Label htmlFor={id}>I have verified this is the intended recipient</Label>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
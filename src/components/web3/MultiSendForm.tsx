@@ -0,0 +1,306 @@
+/**
+ * Multi-Send Form Component
+ *
+ * Pay many recipients of native or ERC20 tokens from a pasted or uploaded CSV
+ */
+
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { Alert, AlertDescription } from '../ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { AlertTriangle, CheckCircle, Loader2, Send, Upload, XCircle } from 'lucide-react'
+import { toast } from 'sonner@2.0.3'
+import { useNativeBalance, useERC20Balance } from '../../hooks/web3/useTokenBalance'
+import { useTokenList } from '../../hooks/web3/useTokenList'
+import { useMultiSend, type MultiSendRowStatus } from '../../hooks/web3/useMultiSend'
+import { useSpendableNativeBalance } from '../../hooks/web3/useGasEstimation'
+import { parseMultiSendCsv, validateMultiSend } from '../../lib/web3/multiSend'
+import { useAddressBook } from '../../hooks/web3/useAddressBook'
+import { formatAddress, formatTokenBalance } from '../../utils/formatters'
+
+/**
+ * Select value for the chain's native currency
+ */
+const NATIVE_ASSET = 'native'
+
+/**
+ * Status badge for one row
+ */
+function RowStatus({ status, error }: { status?: MultiSendRowStatus; error?: string }) {
+  if (error) {
+    return <span className="text-xs text-destructive">{error}</span>
+  }
+
+  switch (status) {
+    case 'submitted':
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Submitted
+        </Badge>
+      )
+    case 'confirmed':
+      return (
+        <Badge variant="default" className="gap-1">
+          <CheckCircle className="h-3 w-3" />
+          Sent
+        </Badge>
+      )
+    case 'failed':
+      return (
+        <Badge variant="destructive" className="gap-1">
+          <XCircle className="h-3 w-3" />
+          Failed
+        </Badge>
+      )
+    case 'pending':
+      return <Badge variant="outline">Waiting</Badge>
+    default:
+      return <Badge variant="outline">Ready</Badge>
+  }
+}
+
+/**
+ * Batch transfer form
+ */
+export function MultiSendForm() {
+  const [asset, setAsset] = useState<string>(NATIVE_ASSET)
+  const [csv, setCsv] = useState('')
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const { tokens } = useTokenList()
+  const selectedToken = tokens.find((token) => token.address === asset)
+  const native = useNativeBalance()
+  const { balance: tokenBalance } = useERC20Balance(selectedToken?.address)
+
+  const rows = useMemo(() => parseMultiSendCsv(csv), [csv])
+  // Native batches also pay gas from the balance, roughly one transfer's worth per row
+  const { maxAmount: spendableNative } = useSpendableNativeBalance(native.balance, {
+    transfers: Math.max(rows.length, 1),
+    enabled: !selectedToken,
+  })
+
+  const symbol = selectedToken ? selectedToken.symbol : native.symbol
+  const decimals = selectedToken ? selectedToken.decimals : native.decimals ?? 18
+  const balance = selectedToken ? tokenBalance : spendableNative
+
+  const { method, isLoadingMethod, send, statuses, isSending, reset } = useMultiSend()
+  // Contact labels only; ENS lookups for every row would flood the RPC
+  const { getContact } = useAddressBook()
+
+  const batch = useMemo(() => validateMultiSend(rows, decimals, balance), [rows, decimals, balance])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setCsv(await file.text())
+    reset()
+  }
+
+  const handleSend = async () => {
+    if (!batch.isValid) return
+
+    try {
+      const result = await send(batch.rows, selectedToken?.address ?? NATIVE_ASSET)
+      if (result === 'success') {
+        toast.success(`Sent ${symbol ?? ''} to ${batch.rows.length} recipients`)
+      } else if (result === 'failed') {
+        toast.error('Some transfers in the batch failed')
+      }
+    } catch (error) {
+      // Failures are surfaced by useMultiSend
+      console.error('Multi-send failed:', error)
+    }
+  }
+
+  const invalidRows = batch.rows.filter((row) => row.error).length
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="multi-send-asset">Asset</Label>
+        <Select
+          // Falls back to native when the token is not on the new chain
+          value={selectedToken ? asset : NATIVE_ASSET}
+          onValueChange={(value) => {
+            setAsset(value)
+            reset()
+          }}
+          disabled={isSending}
+        >
+          <SelectTrigger id="multi-send-asset">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NATIVE_ASSET}>{native.symbol ?? 'Native token'}</SelectItem>
+            {tokens.map((token) => (
+              <SelectItem key={token.address} value={token.address}>
+                {token.symbol}
+                <span className="text-muted-foreground">{token.name}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="multi-send-csv">Recipients</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => fileInput.current?.click()}
+            disabled={isSending}
+          >
+            <Upload className="h-3 w-3" />
+            Upload CSV
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+        <Textarea
+          id="multi-send-csv"
+          value={csv}
+          onChange={(e) => {
+            setCsv(e.target.value)
+            reset()
+          }}
+          placeholder={'0x1234...,1.5\n0xabcd...,0.25'}
+          className="font-mono text-xs min-h-32"
+          disabled={isSending}
+          spellCheck={false}
+        />
+        <p className="text-xs text-muted-foreground">One address,amount per line</p>
+      </div>
+
+      {batch.rows.length > 0 && (
+        <div className="max-h-72 overflow-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">Line</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batch.rows.map((row) => (
+                <TableRow key={row.line}>
+                  <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                  <TableCell className="text-xs">
+                    {row.recipient ? (
+                      <span title={row.recipient}>
+                        {getContact(row.recipient)?.label ?? formatAddress(row.recipient)}
+                      </span>
+                    ) : (
+                      <code className="break-all">{row.address || '—'}</code>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{row.amount || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <RowStatus status={statuses[row.line]} error={row.error} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {batch.rows.length > 0 && (
+        <div className="space-y-1 p-3 rounded-lg bg-muted text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Recipients</span>
+            <span>
+              {batch.rows.length}
+              {invalidRows > 0 && ` (${invalidRows} invalid)`}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Total</span>
+            <span>
+              {formatTokenBalance(batch.total, decimals)} {symbol}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              {selectedToken ? 'Balance' : 'Spendable after gas'}
+            </span>
+            <span>
+              {formatTokenBalance(balance, decimals)} {symbol}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {batch.rows.length > 0 && batch.error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{batch.error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!isLoadingMethod && (
+        <p className="text-xs text-muted-foreground">
+          {method === 'sendCalls'
+            ? 'Your wallet will confirm every transfer in a single batch request.'
+            : method === 'disperse'
+              ? selectedToken
+                ? 'Sent in one transaction through the Disperse contract, after approving it for the total.'
+                : 'Sent in one transaction through the Disperse contract.'
+              : 'Batch sending is not available for this wallet on this network.'}
+        </p>
+      )}
+
+      <Button
+        type="button"
+        onClick={handleSend}
+        disabled={!batch.isValid || !method || isSending}
+        className="w-full gap-2"
+      >
+        {isSending ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          <>
+            <Send className="h-4 w-4" />
+            {batch.rows.length > 0
+              ? `Send to ${batch.rows.length} recipient${batch.rows.length === 1 ? '' : 's'}`
+              : 'Send batch'}
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+/**
+ * Portfolio Overview Component
+ *
+ * Holdings across every supported chain, grouped by asset
+ */
+
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Skeleton } from '../ui/skeleton'
+import { AlertTriangle, Layers, Loader2, RefreshCw } from 'lucide-react'
+import { usePortfolio, type PortfolioAssetGroup } from '../../hooks/web3/usePortfolio'
+import { getChainName } from '../../lib/web3/chains'
+import { formatTokenBalance, formatUSD } from '../../utils/formatters'
+import { UsdValue } from './UsdValue'
+
+/**
+ * One asset with its per-chain breakdown
+ */
+function PortfolioAssetRow({ group }: { group: PortfolioAssetGroup }) {
+  return (
+    <div className="p-3 rounded-lg border space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-baseline gap-2">
+          <span>{group.symbol}</span>
+          {group.chainId !== undefined && (
+            <Badge variant="outline" className="text-xs">
+              {getChainName(group.chainId)}
+            </Badge>
+          )}
+          <span className="text-sm text-muted-foreground">
+            {group.totalAmount.toLocaleString('en-US', { maximumFractionDigits: 4 })}
+          </span>
+        </div>
+        <span className="text-sm">
+          {group.totalUsdValue !== undefined ? formatUSD(group.totalUsdValue) : '—'}
+        </span>
+      </div>
+      <div className="space-y-1">
+        {group.holdings.map((holding) => (
+          <div
+            key={`${holding.chainId}:${holding.asset}`}
+            className="flex items-center justify-between text-xs"
+          >
+            <span className="text-muted-foreground">{getChainName(holding.chainId)}</span>
+            <div className="flex items-center gap-2">
+              <span>{formatTokenBalance(holding.balance, holding.decimals)}</span>
+              <UsdValue value={holding.usdValue} quote={holding.quote} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Cross-chain portfolio card
+ */
+export function PortfolioOverview() {
+  const { groups, totalUsdValue, chains, isLoading, hasErrors, refetch } = usePortfolio()
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Portfolio
+          </CardTitle>
+          <CardDescription>Balances across all supported networks</CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={refetch} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <span className="text-2xl">{formatUSD(totalUsdValue)}</span>
+          <p className="text-xs text-muted-foreground">Testnet balances are shown but not valued</p>
+        </div>
+
+        {/* Per-chain load state */}
+        <div className="flex flex-wrap gap-1">
+          {chains.map((chain) => (
+            <Badge
+              key={chain.chainId}
+              variant={chain.status === 'error' ? 'destructive' : 'secondary'}
+              className={`gap-1 text-xs ${chain.status === 'error' ? 'cursor-pointer' : ''}`}
+              title={chain.error ? `${chain.error.message} (click to retry)` : undefined}
+              onClick={chain.status === 'error' ? chain.refetch : undefined}
+            >
+              {chain.status === 'loading' && <Loader2 className="h-3 w-3 animate-spin" />}
+              {chain.status === 'error' && <AlertTriangle className="h-3 w-3" />}
+              {chain.name}
+            </Badge>
+          ))}
+        </div>
+
+        {hasErrors && (
+          <p className="text-xs text-muted-foreground">
+            Some networks could not be reached. Totals exclude them.
+          </p>
+        )}
+
+        {groups.length === 0 && isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No balances found</p>
+        ) : (
+          <div className="space-y-2">
+            {groups.map((group) => (
+              <PortfolioAssetRow key={group.key} group={group} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
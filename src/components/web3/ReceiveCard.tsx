@@ -0,0 +1,187 @@
+/**
+ * Receive Card Component
+ *
+ * Shows the connected address as a QR code and builds EIP-681 payment requests
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import QRCode from 'qrcode'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Label } from '../ui/label'
+import { Skeleton } from '../ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { Copy, Link, QrCode } from 'lucide-react'
+import { toast } from 'sonner@2.0.3'
+import { useWallet } from '../../hooks/web3/useWallet'
+import { useTokenList } from '../../hooks/web3/useTokenList'
+import { SUPPORTED_CHAINS } from '../../lib/web3/config'
+import { getNativeCurrency } from '../../lib/web3/chains'
+import { buildPaymentRequestLink, buildPaymentUri } from '../../lib/web3/paymentRequests'
+import { validateTokenAmount } from '../../utils/formatters'
+import { copyToClipboard } from '../../utils/clipboard'
+import { TokenAmountInput } from './TokenAmountInput'
+
+/**
+ * Select value for the chain's native currency
+ */
+const NATIVE_ASSET = 'native'
+
+/**
+ * QR code image for a value
+ */
+function QrImage({ value, label }: { value: string; label: string }) {
+  const [dataUrl, setDataUrl] = useState<string>()
+
+  useEffect(() => {
+    let cancelled = false
+    QRCode.toDataURL(value, { margin: 1, width: 240, errorCorrectionLevel: 'M' })
+      .then((url) => !cancelled && setDataUrl(url))
+      .catch((error) => console.error('QR code generation failed:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [value])
+
+  if (!dataUrl) return <Skeleton className="h-60 w-60" />
+
+  return <img src={dataUrl} alt={label} className="h-60 w-60 rounded-lg border bg-white p-2" />
+}
+
+/**
+ * Copy text and confirm with a toast
+ */
+async function copy(text: string, label: string) {
+  try {
+    await copyToClipboard(text)
+    toast.success(`${label} copied to clipboard`)
+  } catch (error) {
+    console.error('Failed to copy:', error)
+    toast.error(`Failed to copy ${label.toLowerCase()}`)
+  }
+}
+
+/**
+ * Receive funds card
+ */
+export function ReceiveCard() {
+  const { address, chainId: connectedChainId } = useWallet()
+  const [chainId, setChainId] = useState(connectedChainId)
+  const [asset, setAsset] = useState<string>(NATIVE_ASSET)
+  const [amount, setAmount] = useState('')
+
+  const targetChainId = chainId ?? connectedChainId
+  const { tokens } = useTokenList(targetChainId)
+  const selectedToken = tokens.find((token) => token.address === asset)
+  const decimals = selectedToken?.decimals ?? 18
+  const symbol = selectedToken?.symbol ?? (targetChainId ? getNativeCurrency(targetChainId) : 'ETH')
+  const { amount: value, error: amountError } = validateTokenAmount(amount, decimals)
+
+  if (!address) return null
+
+  const uri = buildPaymentUri({
+    to: address,
+    asset: selectedToken?.address ?? NATIVE_ASSET,
+    chainId: targetChainId,
+    amount: amountError ? undefined : value,
+  })
+  const appLink = buildPaymentRequestLink(uri, window.location.origin + window.location.pathname)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Receive
+        </CardTitle>
+        <CardDescription>Share your address or request a specific payment</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col items-center gap-3">
+          <QrImage value={uri} label="Payment request QR code" />
+          <code className="break-all text-center text-xs">{address}</code>
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => copy(address, 'Address')}>
+              <Copy className="h-4 w-4" />
+              Copy address
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => copy(uri, 'Payment URI')}>
+              <Copy className="h-4 w-4" />
+              Copy URI
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => copy(appLink, 'Payment link')}>
+              <Link className="h-4 w-4" />
+              Copy link
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="receive-network">Network</Label>
+              <Select
+                value={targetChainId ? String(targetChainId) : undefined}
+                onValueChange={(next) => {
+                  setChainId(Number(next))
+                  setAsset(NATIVE_ASSET)
+                }}
+              >
+                <SelectTrigger id="receive-network">
+                  <SelectValue placeholder="Select network" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CHAINS.map((chain) => (
+                    <SelectItem key={chain.id} value={String(chain.id)}>
+                      {chain.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="receive-asset">Token</Label>
+              <Select value={selectedToken ? asset : NATIVE_ASSET} onValueChange={setAsset}>
+                <SelectTrigger id="receive-asset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NATIVE_ASSET}>
+                    {targetChainId ? getNativeCurrency(targetChainId) : 'Native token'}
+                  </SelectItem>
+                  {tokens.map((token) => (
+                    <SelectItem key={token.address} value={token.address}>
+                      {token.symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receive-amount">Amount (optional)</Label>
+            <TokenAmountInput
+              id="receive-amount"
+              value={amount}
+              onChange={setAmount}
+              asset={selectedToken?.address ?? NATIVE_ASSET}
+              symbol={symbol}
+              decimals={decimals}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,246 @@
+/**
+ * Sign Typed Data Dialog Component
+ *
+ * Human-readable review of an EIP-712 signature request before the wallet prompt
+ */
+
+'use client'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Alert, AlertDescription } from '../ui/alert'
+import { ScrollArea } from '../ui/scroll-area'
+import { AlertTriangle, Loader2, PenLine, ShieldAlert } from 'lucide-react'
+import { maxUint256 } from 'viem'
+import { useTypedDataWarnings } from '../../hooks/web3/useSignTypedData'
+import { getChainName } from '../../lib/web3/chains'
+import { formatAddress } from '../../utils/formatters'
+import type { TypedData } from '../../types/web3'
+
+interface SignTypedDataDialogProps {
+  request?: TypedData
+  isSigning: boolean
+  onConfirm: () => void
+  onReject: () => void
+}
+
+/**
+ * Render a primitive EIP-712 value
+ */
+function formatPrimitive(type: string, value: unknown): string {
+  if (value === undefined || value === null) return '—'
+
+  if (type === 'address') {
+    return String(value)
+  }
+
+  if (type.startsWith('uint') || type.startsWith('int')) {
+    try {
+      const number = BigInt(value as string | number | bigint)
+      if (number === maxUint256) return 'Unlimited (max uint256)'
+      return number.toLocaleString('en-US')
+    } catch {
+      return String(value)
+    }
+  }
+
+  if (type === 'bool') {
+    return value ? 'Yes' : 'No'
+  }
+
+  if (type.startsWith('bytes')) {
+    const hex = String(value)
+    return hex.length > 26 ? formatAddress(hex, 14, 8) : hex
+  }
+
+  return String(value)
+}
+
+interface TypedDataValueProps {
+  name: string
+  type: string
+  value: unknown
+  types: TypedData['types']
+}
+
+/**
+ * Recursively render a field of the message tree
+ */
+function TypedDataValue({ name, type, value, types }: TypedDataValueProps) {
+  // Arrays (e.g. Person[] or uint256[3])
+  const arrayMatch = type.match(/^(.*)\[\d*\]$/)
+  if (arrayMatch) {
+    const items = Array.isArray(value) ? value : []
+    return (
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">
+          {name} <span className="opacity-60">({items.length} items)</span>
+        </div>
+        <div className="pl-3 border-l space-y-1">
+          {items.map((item, index) => (
+            <TypedDataValue
+              key={index}
+              name={`#${index + 1}`}
+              type={arrayMatch[1]}
+              value={item}
+              types={types}
+            />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  // Nested structs
+  const fields = types[type]
+  if (fields) {
+    const struct = (value ?? {}) as Record<string, unknown>
+    return (
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">
+          {name} <span className="opacity-60">({type})</span>
+        </div>
+        <div className="pl-3 border-l space-y-1">
+          {fields.map((field) => (
+            <TypedDataValue
+              key={field.name}
+              name={field.name}
+              type={field.type}
+              value={struct[field.name]}
+              types={types}
+            />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-start justify-between gap-4 text-xs">
+      <span className="text-muted-foreground">{name}</span>
+      <code className="break-all text-right" title={String(value)}>
+        {formatPrimitive(type, value)}
+      </code>
+    </div>
+  )
+}
+
+/**
+ * Review dialog for an EIP-712 signature request
+ */
+export function SignTypedDataDialog({
+  request,
+  isSigning,
+  onConfirm,
+  onReject,
+}: SignTypedDataDialogProps) {
+  const warnings = useTypedDataWarnings(request)
+  const hasDanger = warnings.some((warning) => warning.severity === 'danger')
+
+  return (
+    <Dialog
+      open={!!request}
+      onOpenChange={(open) => {
+        if (!open && !isSigning) onReject()
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PenLine className="h-5 w-5" />
+            Signature Request
+          </DialogTitle>
+          <DialogDescription>
+            Review what you are signing. Signatures can authorize transfers without a transaction.
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-4">
+            {warnings.map((warning) => (
+              <Alert
+                key={warning.message}
+                variant={warning.severity === 'danger' ? 'destructive' : 'default'}
+              >
+                {warning.severity === 'danger' ? (
+                  <ShieldAlert className="h-4 w-4" />
+                ) : (
+                  <AlertTriangle className="h-4 w-4" />
+                )}
+                <AlertDescription>{warning.message}</AlertDescription>
+              </Alert>
+            ))}
+
+            {/* Domain */}
+            <div className="space-y-1 p-3 rounded-lg bg-muted">
+              <div className="text-sm mb-1">Domain</div>
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Application</span>
+                <span>
+                  {request.domain.name || '—'}
+                  {request.domain.version && ` v${request.domain.version}`}
+                </span>
+              </div>
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Network</span>
+                <span>
+                  {request.domain.chainId !== undefined
+                    ? `${getChainName(Number(request.domain.chainId))} (${request.domain.chainId})`
+                    : '—'}
+                </span>
+              </div>
+              <div className="flex justify-between gap-4 text-xs">
+                <span className="text-muted-foreground">Verifying contract</span>
+                <code className="break-all text-right">
+                  {request.domain.verifyingContract || '—'}
+                </code>
+              </div>
+            </div>
+
+            {/* Message */}
+            <div className="space-y-1">
+              <div className="text-sm">
+                Message <span className="text-xs text-muted-foreground">({request.primaryType})</span>
+              </div>
+              <ScrollArea className="max-h-64 rounded-lg border p-3">
+                <div className="space-y-1">
+                  {(request.types[request.primaryType] ?? []).map((field) => (
+                    <TypedDataValue
+                      key={field.name}
+                      name={field.name}
+                      type={field.type}
+                      value={request.message[field.name]}
+                      types={request.types}
+                    />
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onReject} disabled={isSigning}>
+            Reject
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={isSigning}
+            variant={hasDanger ? 'destructive' : 'default'}
+            className="gap-2"
+          >
+            {isSigning && <Loader2 className="h-4 w-4 animate-spin" />}
+            {hasDanger ? 'Sign Anyway' : 'Sign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,52 @@
+/**
+ * Simulation Alert Component
+ *
+ * Shows the outcome of a pre-flight transaction simulation
+ */
+
+'use client'
+
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert'
+import { AlertTriangle, ShieldAlert } from 'lucide-react'
+import type { SimulationResult } from '../../lib/web3/simulation'
+import { parseWeb3Error } from '../../lib/utils/errors'
+
+interface SimulationAlertProps {
+  simulation?: SimulationResult
+}
+
+/**
+ * Revert reason or simulation warning for a contract write
+ */
+export function SimulationAlert({ simulation }: SimulationAlertProps) {
+  if (!simulation || simulation.status === 'success') {
+    return null
+  }
+
+  if (simulation.status === 'reverted') {
+    return (
+      <Alert variant="destructive">
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>Transaction would revert</AlertTitle>
+        <AlertDescription>
+          <p>{simulation.revert.reason}</p>
+          {simulation.revert.errorName &&
+            simulation.revert.errorName !== 'Error' &&
+            simulation.revert.errorName !== 'Panic' && (
+              <p className="text-xs">Custom error: {simulation.revert.errorName}</p>
+            )}
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Simulation unavailable</AlertTitle>
+      <AlertDescription>
+        {parseWeb3Error(simulation.error)}. The transaction was sent without a pre-flight check.
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,176 @@
+/**
+ * Token Amount Input Component
+ *
+ * Amount entry with token decimals, balance validation, Max and fiat entry
+ */
+
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { formatUnits } from 'viem'
+import { ArrowUpDown } from 'lucide-react'
+import { Input } from '../ui/input'
+import { Button } from '../ui/button'
+import { usePrices } from '../../hooks/web3/usePrices'
+import { useSpendableNativeBalance } from '../../hooks/web3/useGasEstimation'
+import { formatTokenBalance, formatUSD, validateTokenAmount } from '../../utils/formatters'
+import type { PriceAsset } from '../../lib/web3/prices'
+import type { TransactionOverrides } from '../../lib/web3/gasSettings'
+
+/**
+ * Fraction digits shown when converting from fiat
+ */
+const MAX_CONVERTED_DECIMALS = 8
+
+interface TokenAmountInputProps {
+  id?: string
+  /** Amount in token units, e.g. "1.5" */
+  value: string
+  onChange: (value: string) => void
+  /** 'native' or the token address, used for pricing */
+  asset?: PriceAsset
+  symbol?: string
+  decimals: number
+  /** Spendable balance in the smallest unit */
+  balance?: bigint
+  /** Gas overrides of the transfer, for the fee reserved from a native balance */
+  gasOverrides?: TransactionOverrides
+  disabled?: boolean
+}
+
+/**
+ * Convert a number to a plain decimal string without exponent notation
+ */
+function toDecimalString(value: number, decimals: number): string {
+  if (!Number.isFinite(value) || value <= 0) return ''
+  return value
+    .toFixed(Math.min(decimals, MAX_CONVERTED_DECIMALS))
+    .replace(/\.?0+$/, '')
+}
+
+/**
+ * Amount input bound to a token's decimals and balance
+ */
+export function TokenAmountInput({
+  id,
+  value,
+  onChange,
+  asset,
+  symbol,
+  decimals,
+  balance,
+  gasOverrides,
+  disabled,
+}: TokenAmountInputProps) {
+  const [isFiat, setIsFiat] = useState(false)
+  const [fiatValue, setFiatValue] = useState('')
+  // Last token amount derived from fiat entry, to tell it apart from outside changes
+  const fromFiat = useRef<string>()
+
+  const { getQuote } = usePrices(asset ? [asset] : [])
+  const quote = asset ? getQuote(asset) : undefined
+
+  // Keep the fiat text in sync when the parent changes or resets the amount
+  useEffect(() => {
+    if (value === fromFiat.current) return
+    setFiatValue(quote && value ? (Number(value) * quote.usd).toFixed(2) : '')
+  }, [value, quote])
+
+  // Reserve gas when spending the native currency
+  const { maxAmount } = useSpendableNativeBalance(balance, {
+    overrides: gasOverrides,
+    enabled: asset === 'native',
+  })
+
+  const { amount, error } = validateTokenAmount(value, decimals, maxAmount)
+
+  const handleTokenChange = (next: string) => {
+    onChange(next)
+  }
+
+  const handleFiatChange = (next: string) => {
+    setFiatValue(next)
+    const usd = parseFloat(next)
+    const tokenValue =
+      quote && !Number.isNaN(usd) ? toDecimalString(usd / quote.usd, decimals) : ''
+    fromFiat.current = tokenValue
+    onChange(tokenValue)
+  }
+
+  const handleMax = () => {
+    if (maxAmount === undefined) return
+    onChange(formatUnits(maxAmount, decimals))
+  }
+
+  const toggleFiat = () => {
+    setIsFiat(!isFiat)
+  }
+
+  const converted =
+    quote && amount
+      ? isFiat
+        ? `≈ ${formatTokenBalance(amount, decimals, 6)} ${symbol ?? ''}`
+        : `≈ ${formatUSD(Number(formatUnits(amount, decimals)) * quote.usd)}`
+      : undefined
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          {isFiat && (
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+              $
+            </span>
+          )}
+          <Input
+            id={id}
+            inputMode="decimal"
+            placeholder="0.0"
+            value={isFiat ? fiatValue : value}
+            onChange={(e) =>
+              isFiat ? handleFiatChange(e.target.value) : handleTokenChange(e.target.value)
+            }
+            disabled={disabled}
+            aria-invalid={!!error}
+            className={isFiat ? 'pl-7' : undefined}
+          />
+        </div>
+        {quote && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-9 gap-1"
+            onClick={toggleFiat}
+            disabled={disabled}
+            aria-label={isFiat ? `Enter amount in ${symbol ?? 'tokens'}` : 'Enter amount in USD'}
+          >
+            <ArrowUpDown className="h-3 w-3" />
+            {isFiat ? symbol ?? 'Token' : 'USD'}
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-9"
+          onClick={handleMax}
+          disabled={disabled || maxAmount === undefined || maxAmount === 0n}
+        >
+          Max
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className={error ? 'text-destructive' : 'text-muted-foreground'}>
+          {error ?? converted ?? ' '}
+        </span>
+        {balance !== undefined && (
+          <span className="text-muted-foreground">
+            Balance: {formatTokenBalance(balance, decimals)} {symbol}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,21 +6,32 @@
 
 'use client'
 
-import { useNativeBalance, useERC20Balance } from '../../hooks/web3/useTokenBalance'
+import {
+  useNativeBalance,
+  useERC20Balance,
+  useMultipleTokenBalances,
+} from '../../hooks/web3/useTokenBalance'
+import { useTokenList, CUSTOM_TOKEN_TAG } from '../../hooks/web3/useTokenList'
+import { useCustomTokenStore } from '../../store/customTokenStore'
+import { usePrices } from '../../hooks/web3/usePrices'
+import { ImportTokenDialog } from './ImportTokenDialog'
+import { UsdValue } from './UsdValue'
+import { Badge } from '../ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
 import { Skeleton } from '../ui/skeleton'
-import { formatTokenBalance, formatAddress } from '../../utils/formatters'
-import { Coins, RefreshCw } from 'lucide-react'
+import { formatTokenBalance, formatAddress, formatUSD } from '../../utils/formatters'
+import { Coins, RefreshCw, Trash2 } from 'lucide-react'
 import { Button } from '../ui/button'
-import { CONTRACT_ADDRESSES } from '../../lib/constants/contracts'
-import { useWallet } from '../../hooks/web3/useWallet'
 import type { Address } from 'viem'
+import type { TokenBalance, TokenInfo } from '../../types/web3'
+import type { PriceQuote } from '../../lib/web3/prices'
 
 /**
  * Native token balance display
  */
 export function NativeBalance() {
-  const { balance, symbol, isLoading, refetch } = useNativeBalance()
+  const { balance, symbol, decimals, isLoading, refetch } = useNativeBalance()
+  const { getQuote, getUsdValue } = usePrices(['native'])
 
   return (
     <Card>
@@ -47,6 +58,11 @@ export function NativeBalance() {
               <span className="text-2xl">{formatTokenBalance(balance || 0n)}</span>
               <span className="text-muted-foreground">{symbol}</span>
             </div>
+            <UsdValue
+              value={getUsdValue('native', balance || 0n, decimals ?? 18)}
+              quote={getQuote('native')}
+              className="text-sm mt-1"
+            />
           </div>
         )}
       </CardContent>
@@ -65,6 +81,7 @@ interface ERC20BalanceProps {
 export function ERC20Balance({ tokenAddress, label }: ERC20BalanceProps) {
   const { symbol, balance, decimals, isLoading, refetch } =
     useERC20Balance(tokenAddress)
+  const { getQuote, getUsdValue } = usePrices([tokenAddress])
 
   return (
     <Card>
@@ -91,6 +108,11 @@ export function ERC20Balance({ tokenAddress, label }: ERC20BalanceProps) {
               <span className="text-2xl">{formatTokenBalance(balance, decimals)}</span>
               <span className="text-muted-foreground">{symbol}</span>
             </div>
+            <UsdValue
+              value={getUsdValue(tokenAddress, balance, decimals)}
+              quote={getQuote(tokenAddress)}
+              className="text-sm mt-1"
+            />
             <div className="text-xs text-muted-foreground mt-1">
               {formatAddress(tokenAddress)}
             </div>
@@ -101,44 +123,173 @@ export function ERC20Balance({ tokenAddress, label }: ERC20BalanceProps) {
   )
 }
 
+/**
+ * Zero balances are hidden once a chain has more tokens than this
+ */
+const MAX_ZERO_BALANCE_TOKENS = 12
+
+/**
+ * Balance card for a token from the registry
+ */
+interface RegistryTokenBalanceProps {
+  token: TokenInfo
+  balance: bigint
+  usdValue?: number
+  quote?: PriceQuote
+  isLoading: boolean
+}
+
+function RegistryTokenBalance({ token, balance, usdValue, quote, isLoading }: RegistryTokenBalanceProps) {
+  const removeToken = useCustomTokenStore((state) => state.removeToken)
+  const isCustom = token.tags?.includes(CUSTOM_TOKEN_TAG)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="flex items-center gap-2">
+          {token.logoURI ? (
+            <img src={token.logoURI} alt="" className="h-5 w-5 rounded-full" />
+          ) : (
+            <Coins className="h-5 w-5" />
+          )}
+          {token.symbol}
+          {isCustom && (
+            <Badge variant="secondary" className="text-xs">
+              Imported
+            </Badge>
+          )}
+        </CardTitle>
+        {isCustom && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeToken(token.chainId, token.address)}
+            aria-label={`Remove ${token.symbol}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-8 w-32" />
+        ) : (
+          <div>
+            <div className="flex items-baseline gap-2">
+              <span className="text-2xl">{formatTokenBalance(balance, token.decimals)}</span>
+              <span className="text-muted-foreground">{token.symbol}</span>
+            </div>
+            <UsdValue value={usdValue} quote={quote} className="text-sm mt-1" />
+            <div className="text-xs text-muted-foreground mt-1">
+              {token.name} · {formatAddress(token.address)}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 /**
  * All token balances overview
+ * Shows every registry token for the active chain
  */
 export function TokenBalancesOverview() {
-  const { chainId } = useWallet()
-
-  // Get token addresses for current chain
-  const usdcAddress = chainId
-    ? CONTRACT_ADDRESSES.USDC[chainId as keyof typeof CONTRACT_ADDRESSES.USDC]
-    : undefined
-  const usdtAddress = chainId
-    ? CONTRACT_ADDRESSES.USDT[chainId as keyof typeof CONTRACT_ADDRESSES.USDT]
-    : undefined
-  const daiAddress = chainId
-    ? CONTRACT_ADDRESSES.DAI[chainId as keyof typeof CONTRACT_ADDRESSES.DAI]
-    : undefined
+  const { tokens } = useTokenList()
+  const { balances, isLoading, refetch } = useMultipleTokenBalances(
+    tokens.map((token) => token.address)
+  )
+
+  const { balance: nativeBalance, decimals: nativeDecimals } = useNativeBalance()
+  const { getQuote, getUsdValue } = usePrices([
+    'native',
+    ...tokens.map((token) => token.address),
+  ])
+
+  // Attach USD values using the registry's decimals
+  const balanceByAddress = new Map<string, TokenBalance & { isLoading: boolean }>(
+    balances.map((balance) => {
+      const token = tokens.find((t) => t.address.toLowerCase() === balance.address.toLowerCase())
+      return [
+        balance.address.toLowerCase(),
+        {
+          ...balance,
+          usdValue: getUsdValue(balance.address, balance.balance, token?.decimals ?? balance.decimals),
+        },
+      ]
+    })
+  )
+
+  // Portfolio total over priced assets only
+  const nativeUsdValue = getUsdValue('native', nativeBalance ?? 0n, nativeDecimals ?? 18)
+  const pricedValues = [
+    nativeUsdValue,
+    ...Array.from(balanceByAddress.values()).map((balance) => balance.usdValue),
+  ].filter((value): value is number => value !== undefined)
+  const totalUsdValue = pricedValues.reduce((sum, value) => sum + value, 0)
+  const hasStalePrice = [
+    getQuote('native'),
+    ...tokens.map((token) => getQuote(token.address)),
+  ].some((quote) => quote?.isStale)
+  const hideZeroBalances = tokens.length > MAX_ZERO_BALANCE_TOKENS
+  const visibleTokens = hideZeroBalances
+    ? tokens.filter(
+        (token) =>
+          token.tags?.includes(CUSTOM_TOKEN_TAG) ||
+          (balanceByAddress.get(token.address.toLowerCase())?.balance ?? 0n) > 0n
+      )
+    : tokens
 
   return (
     <div className="space-y-4">
-      <h3 className="flex items-center gap-2">
-        Token Balances
-      </h3>
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h3 className="flex items-center gap-2">
+            Token Balances
+          </h3>
+          {pricedValues.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Total {formatUSD(totalUsdValue)}
+              {hasStalePrice && ' · some prices are stale'}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <ImportTokenDialog />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isLoading}
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
       
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         <NativeBalance />
-        
-        {usdcAddress && (
-          <ERC20Balance tokenAddress={usdcAddress as Address} label="USDC" />
-        )}
-        
-        {usdtAddress && (
-          <ERC20Balance tokenAddress={usdtAddress as Address} label="USDT" />
-        )}
-        
-        {daiAddress && (
-          <ERC20Balance tokenAddress={daiAddress as Address} label="DAI" />
-        )}
+
+        {visibleTokens.map((token) => {
+          const balance = balanceByAddress.get(token.address.toLowerCase())
+          return (
+            <RegistryTokenBalance
+              key={token.address}
+              token={token}
+              balance={balance?.balance ?? 0n}
+              usdValue={balance?.usdValue}
+              quote={getQuote(token.address)}
+              isLoading={!balance || balance.isLoading}
+            />
+          )
+        })}
       </div>
+
+      {hideZeroBalances && (
+        <p className="text-xs text-muted-foreground">
+          {tokens.length - visibleTokens.length} tokens with a zero balance are hidden
+        </p>
+      )}
     </div>
   )
 }
@@ -0,0 +1,132 @@
+/**
+ * Token List Manager Component
+ *
+ * Import, prioritize and toggle token lists
+ */
+
+'use client'
+
+import { useRef } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Switch } from '../ui/switch'
+import { Badge } from '../ui/badge'
+import { ArrowDown, ArrowUp, List, Trash2, Upload } from 'lucide-react'
+import { useTokenListManager } from '../../hooks/web3/useTokenList'
+
+/**
+ * Token list management card
+ */
+export function TokenListManager() {
+  const { lists, defaultList, importFile, removeList, toggleList, moveList } =
+    useTokenListManager()
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      await importFile(file)
+    } catch (error) {
+      // Validation failures are surfaced by useTokenListManager
+      console.error('Token list import failed:', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <List className="h-5 w-5" />
+            Token Lists
+          </CardTitle>
+          <CardDescription>
+            Lists higher up take priority when they describe the same token
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => fileInput.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {lists.map((entry, index) => (
+          <div
+            key={entry.list.name}
+            className="flex items-center justify-between gap-2 p-2 rounded-lg border"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <Switch
+                checked={entry.enabled}
+                onCheckedChange={() => toggleList(entry.list.name)}
+                aria-label={`Enable ${entry.list.name}`}
+              />
+              <div className="min-w-0">
+                <div className="text-sm truncate">{entry.list.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {entry.list.tokens.length} tokens · v{entry.list.version.major}.
+                  {entry.list.version.minor}.{entry.list.version.patch}
+                </div>
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moveList(entry.list.name, 'up')}
+                disabled={index === 0}
+                aria-label="Raise priority"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => moveList(entry.list.name, 'down')}
+                disabled={index === lists.length - 1}
+                aria-label="Lower priority"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeList(entry.list.name)}
+                aria-label="Remove list"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-2 p-2 rounded-lg border bg-muted">
+          <div>
+            <div className="text-sm">{defaultList.name}</div>
+            <div className="text-xs text-muted-foreground">
+              {defaultList.tokens.length} tokens
+            </div>
+          </div>
+          <Badge variant="secondary" className="text-xs">
+            Bundled
+          </Badge>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
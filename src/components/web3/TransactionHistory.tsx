@@ -0,0 +1,252 @@
+/**
+ * Transaction History Component
+ *
+ * Displays recorded transactions for the connected wallet on the current chain
+ */
+
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import {
+  useTransactionHistory,
+  usePendingTransactionSync,
+} from '../../hooks/web3/useTransactionHistory'
+import { useReplaceTransaction } from '../../hooks/web3/useContractWrite'
+import { useWallet } from '../../hooks/web3/useWallet'
+import {
+  formatEtherValue,
+  formatRelativeTime,
+  formatTxHash,
+} from '../../utils/formatters'
+import { getNativeCurrency, getTxExplorerUrl } from '../../lib/web3/chains'
+import { AddressDisplay } from './AddressDisplay'
+import {
+  History,
+  ExternalLink,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  Trash2,
+  Repeat,
+  CircleSlash,
+  Zap,
+  X,
+} from 'lucide-react'
+import type { Transaction } from '../../types/web3'
+
+/**
+ * Status badge for a transaction
+ */
+function TransactionStatusBadge({ status }: { status: Transaction['status'] }) {
+  if (status === 'pending') {
+    return (
+      <Badge variant="secondary" className="gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Pending
+      </Badge>
+    )
+  }
+
+  if (status === 'success') {
+    return (
+      <Badge variant="default" className="gap-1">
+        <CheckCircle className="h-3 w-3" />
+        Success
+      </Badge>
+    )
+  }
+
+  if (status === 'replaced') {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <Repeat className="h-3 w-3" />
+        Replaced
+      </Badge>
+    )
+  }
+
+  if (status === 'dropped') {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <CircleSlash className="h-3 w-3" />
+        Dropped
+      </Badge>
+    )
+  }
+
+  return (
+    <Badge variant="destructive" className="gap-1">
+      <XCircle className="h-3 w-3" />
+      Failed
+    </Badge>
+  )
+}
+
+/**
+ * Single transaction row
+ */
+interface TransactionRowProps {
+  transaction: Transaction
+  chainId: number
+}
+
+function TransactionRow({ transaction, chainId }: TransactionRowProps) {
+  // Keep pending entries in sync even if the submitting component unmounted
+  const { confirmations } = usePendingTransactionSync(transaction, chainId)
+  const { address, chainId: accountChainId } = useWallet()
+  const { speedUp, cancel, isReplacing } = useReplaceTransaction()
+
+  // Replacements must be signed by the sender on the same network
+  const canReplace =
+    transaction.status === 'pending' &&
+    !transaction.replacedBy &&
+    accountChainId === chainId &&
+    address?.toLowerCase() === transaction.from.toLowerCase()
+
+  const handleReplace = async (action: typeof speedUp) => {
+    try {
+      await action(transaction.hash)
+    } catch (error) {
+      // Error is surfaced by useReplaceTransaction
+      console.error('Replacement failed:', error)
+    }
+  }
+
+  const explorerUrl = getTxExplorerUrl(chainId, transaction.hash)
+  const symbol = getNativeCurrency(chainId)
+
+  return (
+    <div className="flex items-start justify-between gap-4 p-3 rounded-lg border">
+      <div className="space-y-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm">{transaction.type || 'Transaction'}</span>
+          <TransactionStatusBadge status={transaction.status} />
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {transaction.to ? (
+            <>
+              To <AddressDisplay address={transaction.to} />
+            </>
+          ) : (
+            'Contract creation'
+          )}
+          {' · '}
+          {formatRelativeTime(transaction.timestamp)}
+        </div>
+        {explorerUrl ? (
+          <a
+            href={explorerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs inline-flex items-center gap-1 hover:underline"
+          >
+            <code>{formatTxHash(transaction.hash)}</code>
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        ) : (
+          <code className="text-xs">{formatTxHash(transaction.hash)}</code>
+        )}
+        {transaction.replacedBy && (
+          <div className="text-xs text-muted-foreground">
+            Replaced by <code>{formatTxHash(transaction.replacedBy)}</code>
+          </div>
+        )}
+        {transaction.replaces && (
+          <div className="text-xs text-muted-foreground">
+            Replaces <code>{formatTxHash(transaction.replaces)}</code>
+          </div>
+        )}
+      </div>
+
+      <div className="text-right space-y-1 shrink-0">
+        <div className="text-sm">
+          {formatEtherValue(transaction.value)} {symbol}
+        </div>
+        {transaction.gasUsed !== undefined && (
+          <div className="text-xs text-muted-foreground">
+            Gas used: {transaction.gasUsed.toLocaleString()}
+          </div>
+        )}
+        {transaction.status === 'pending' && confirmations > 0 && (
+          <div className="text-xs text-muted-foreground">
+            {confirmations} confirmation{confirmations === 1 ? '' : 's'}
+          </div>
+        )}
+        {canReplace && (
+          <div className="flex justify-end gap-1 pt-1">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => handleReplace(speedUp)}
+              disabled={isReplacing}
+            >
+              <Zap className="h-3 w-3" />
+              Speed up
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => handleReplace(cancel)}
+              disabled={isReplacing}
+            >
+              <X className="h-3 w-3" />
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Transaction history list for the connected wallet
+ */
+export function TransactionHistory() {
+  const { transactions, pendingCount, chainId, clear } = useTransactionHistory()
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Activity
+          </CardTitle>
+          <CardDescription>
+            {pendingCount > 0
+              ? `${pendingCount} pending transaction${pendingCount === 1 ? '' : 's'}`
+              : 'Transactions sent from this app on the current network'}
+          </CardDescription>
+        </div>
+        {transactions.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={clear} className="gap-2">
+            <Trash2 className="h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {transactions.length === 0 || !chainId ? (
+          <p className="text-sm text-muted-foreground">
+            No transactions yet. Transfers and contract calls will appear here.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {transactions.map((transaction) => (
+              <TransactionRow
+                key={transaction.hash}
+                transaction={transaction}
+                chainId={chainId}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
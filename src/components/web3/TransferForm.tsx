@@ -6,19 +6,42 @@
 
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { useAccount } from 'wagmi'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui/card'
-import { Input } from '../ui/input'
 import { Label } from '../ui/label'
 import { Button } from '../ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs'
 import { useSendTransaction, useTokenTransfer } from '../../hooks/web3/useContractWrite'
-import { parseTokenAmount, isValidAddress } from '../../utils/formatters'
+import { validateTokenAmount, isValidAddress } from '../../utils/formatters'
+import { useNativeBalance, useERC20Balance } from '../../hooks/web3/useTokenBalance'
 import { toast } from 'sonner@2.0.3'
-import { Send, Loader2 } from 'lucide-react'
-import type { Address } from 'viem'
-import { CONTRACT_ADDRESSES } from '../../lib/constants/contracts'
+import { Send, Loader2, Zap, X, Network } from 'lucide-react'
+import { formatUnits } from 'viem'
+import type { Abi, Address, TransactionReceipt } from 'viem'
+import { useTokenList } from '../../hooks/web3/useTokenList'
+import { SimulationAlert } from './SimulationAlert'
+import { TokenAmountInput } from './TokenAmountInput'
+import { AddressInput } from './AddressInput'
+import { MultiSendForm } from './MultiSendForm'
+import { LookalikeWarning } from './LookalikeWarning'
+import { TransferReviewDialog, type TransferReview } from './TransferReviewDialog'
+import { AdvancedGasSettings } from './AdvancedGasSettings'
+import { useGasSettings } from '../../hooks/web3/useGasSettings'
+import {
+  useContractGasEstimate,
+  useSpendableNativeBalance,
+  useTransactionGasEstimate,
+} from '../../hooks/web3/useGasEstimation'
+import { ERC20_ABI } from '../../contracts/abis/ERC20'
+import { useLookalikeCheck } from '../../hooks/web3/useAddressPoisoning'
+import { useAddressBookStore } from '../../store/addressBookStore'
+import { usePaymentRequestStore } from '../../store/paymentRequestStore'
+import { useOpenPaymentRequest } from '../../hooks/web3/usePaymentRequest'
 import { useWallet } from '../../hooks/web3/useWallet'
+import { isPaymentUri } from '../../lib/web3/paymentRequests'
+import { getChainName } from '../../lib/web3/chains'
+import { Alert, AlertDescription } from '../ui/alert'
 import {
   Select,
   SelectContent,
@@ -27,82 +50,300 @@ import {
   SelectValue,
 } from '../ui/select'
 
+/**
+ * Speed up / cancel controls for a transfer awaiting confirmation
+ */
+interface PendingTransactionActionsProps {
+  onSpeedUp: () => Promise<unknown>
+  onCancel: () => Promise<unknown>
+  disabled: boolean
+}
+
+function PendingTransactionActions({ onSpeedUp, onCancel, disabled }: PendingTransactionActionsProps) {
+  const handle = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error('Replacement failed:', error)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+      <span>Taking too long?</span>
+      <div className="flex gap-1">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={() => handle(onSpeedUp)}
+          disabled={disabled}
+        >
+          <Zap className="h-3 w-3" />
+          Speed up
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={() => handle(onCancel)}
+          disabled={disabled}
+        >
+          <X className="h-3 w-3" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Remember the recipient of a submitted transfer once it confirms successfully
+ * @returns Callbacks to track, record and forget the pending recipient
+ */
+function useRecentRecipientRecorder() {
+  const { chainId } = useAccount()
+  const addRecent = useAddressBookStore((state) => state.addRecent)
+  const pending = useRef<{ address: Address; chainId: number }>()
+
+  const track = useCallback(
+    (address: Address) => {
+      pending.current = chainId ? { address, chainId } : undefined
+    },
+    [chainId]
+  )
+
+  // Confirmation callbacks can fire more than once, so record only the first;
+  // reverted transfers are never recorded
+  const record = useCallback(
+    (receipt: TransactionReceipt) => {
+      if (!pending.current) return
+      if (receipt.status === 'success') {
+        addRecent(pending.current.address, pending.current.chainId)
+      }
+      pending.current = undefined
+    },
+    [addRecent]
+  )
+
+  const forget = useCallback(() => {
+    pending.current = undefined
+  }, [])
+
+  return { track, record, forget }
+}
+
+/**
+ * Payment request waiting for a transfer form on the active chain
+ * @param kind - Which form is asking
+ * @param setRecipient - Recipient field setter
+ * @returns The request if it is for this form, a function to mark it applied,
+ * and a recipient change handler that opens pasted payment links
+ */
+function usePaymentRequestPrefill(
+  kind: 'native' | 'token',
+  setRecipient: (value: string) => void
+) {
+  const { chainId } = useAccount()
+  const request = usePaymentRequestStore((state) => state.request)
+  const clearRequest = usePaymentRequestStore((state) => state.clearRequest)
+  const openPaymentRequest = useOpenPaymentRequest()
+
+  const isForForm = !!request && (request.asset === 'native') === (kind === 'native')
+  const isOnChain = !request?.chainId || request.chainId === chainId
+
+  const handleRecipientChange = useCallback(
+    (value: string) => {
+      // A pasted payment link fills in the whole form
+      if (isPaymentUri(value) && openPaymentRequest(value)) return
+      setRecipient(value)
+    },
+    [openPaymentRequest, setRecipient]
+  )
+
+  return {
+    request: isForForm && isOnChain ? request : undefined,
+    clearRequest,
+    handleRecipientChange,
+  }
+}
+
 /**
  * Native token transfer form
  */
 function NativeTransferForm() {
   const [recipient, setRecipient] = useState('')
+  const [recipientAddress, setRecipientAddress] = useState<Address>()
   const [amount, setAmount] = useState('')
+  const { balance, symbol, decimals = 18 } = useNativeBalance()
+  const recentRecipient = useRecentRecipientRecorder()
+  const lookalike = useLookalikeCheck(recipientAddress)
+  const [review, setReview] = useState<TransferReview>()
+  const { request, clearRequest, handleRecipientChange } = usePaymentRequestPrefill(
+    'native',
+    setRecipient
+  )
+
+  useEffect(() => {
+    if (!request) return
+    setRecipient(request.to)
+    setAmount(request.amount !== undefined ? formatUnits(request.amount, decimals) : '')
+    clearRequest()
+  }, [request, decimals, clearRequest])
+
+  const { amount: parsedAmount, error: amountError } = validateTokenAmount(amount, decimals)
+  const { gasLimit: estimatedGas } = useTransactionGasEstimate(
+    recipientAddress,
+    amountError ? undefined : parsedAmount
+  )
+  const gas = useGasSettings(recipientAddress ? estimatedGas : undefined)
+  // Same gas-reserved limit as the amount input's Max
+  const { maxAmount } = useSpendableNativeBalance(balance, { overrides: gas.overrides })
   
-  const { sendTransaction, isPending, isConfirming } = useSendTransaction({
+  const {
+    sendTransaction,
+    speedUp,
+    cancel,
+    simulation,
+    isSimulating,
+    isPending,
+    isConfirming,
+    isReplacing,
+  } = useSendTransaction({
     onSuccess: (hash) => {
       toast.success(`Transaction submitted: ${hash}`)
       setRecipient('')
       setAmount('')
+      gas.clearNonce()
     },
+    onConfirmed: recentRecipient.record,
   })
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!isValidAddress(recipient)) {
+    if (!recipientAddress) {
       toast.error('Invalid recipient address')
       return
     }
 
-    if (!amount || parseFloat(amount) <= 0) {
-      toast.error('Invalid amount')
+    if (lookalike.isBlocked) {
+      toast.error('Verify the recipient before sending')
+      return
+    }
+
+    const { amount: value, error } = validateTokenAmount(amount, decimals, maxAmount)
+    if (!value || error) {
+      toast.error(error ?? 'Invalid amount')
+      return
+    }
+
+    if (gas.error) {
+      toast.error(gas.error)
       return
     }
 
+    setReview({
+      to: recipientAddress,
+      asset: 'native',
+      amount: value,
+      symbol,
+      decimals,
+      gasMode: gas.settings.mode,
+      overrides: gas.overrides,
+    })
+  }
+
+  const handleConfirm = async ({ to, amount: value, overrides }: TransferReview) => {
+    setReview(undefined)
+
     try {
-      await sendTransaction(recipient as Address, parseTokenAmount(amount))
+      recentRecipient.track(to)
+      await sendTransaction(to, value, overrides)
     } catch (error) {
+      recentRecipient.forget()
       console.error('Transfer failed:', error)
     }
   }
 
-  const isLoading = isPending || isConfirming
+  const isLoading = isSimulating || isPending || isConfirming
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
         <Label htmlFor="native-recipient">Recipient Address</Label>
-        <Input
+        <AddressInput
           id="native-recipient"
-          placeholder="0x..."
           value={recipient}
-          onChange={(e) => setRecipient(e.target.value)}
+          onChange={handleRecipientChange}
+          onResolve={setRecipientAddress}
           disabled={isLoading}
+          showSuggestions
         />
+        {recipientAddress && (
+          <LookalikeWarning
+            id="native-lookalike-acknowledge"
+            recipient={recipientAddress}
+            matches={lookalike.matches}
+            acknowledged={lookalike.acknowledged}
+            onAcknowledgedChange={lookalike.setAcknowledged}
+          />
+        )}
       </div>
 
       <div className="space-y-2">
         <Label htmlFor="native-amount">Amount</Label>
-        <Input
+        <TokenAmountInput
           id="native-amount"
-          type="number"
-          step="0.000001"
-          placeholder="0.0"
           value={amount}
-          onChange={(e) => setAmount(e.target.value)}
+          onChange={setAmount}
+          asset="native"
+          symbol={symbol}
+          decimals={decimals}
+          balance={balance}
+          gasOverrides={gas.overrides}
           disabled={isLoading}
         />
       </div>
 
-      <Button type="submit" disabled={isLoading} className="w-full gap-2">
+      <AdvancedGasSettings id="native-gas" gas={gas} disabled={isLoading} />
+
+      <SimulationAlert simulation={simulation} />
+
+      <Button type="submit" disabled={isLoading || lookalike.isBlocked} className="w-full gap-2">
         {isLoading ? (
           <>
             <Loader2 className="h-4 w-4 animate-spin" />
-            {isConfirming ? 'Confirming...' : 'Sending...'}
+            {isSimulating ? 'Simulating...' : isConfirming ? 'Confirming...' : 'Sending...'}
           </>
         ) : (
           <>
             <Send className="h-4 w-4" />
-            Send
+            Review Transfer
           </>
         )}
       </Button>
+
+      {isConfirming && (
+        <PendingTransactionActions
+          onSpeedUp={speedUp}
+          onCancel={async () => {
+            const result = await cancel()
+            // A cancelled transfer never reaches the recipient
+            recentRecipient.forget()
+            return result
+          }}
+          disabled={isReplacing}
+        />
+      )}
+
+      <TransferReviewDialog
+        transfer={review}
+        onOpenChange={(open) => !open && setReview(undefined)}
+        onConfirm={handleConfirm}
+      />
     </form>
   )
 }
@@ -111,66 +352,153 @@ function NativeTransferForm() {
  * ERC20 token transfer form
  */
 function TokenTransferForm() {
-  const { chainId } = useWallet()
   const [tokenAddress, setTokenAddress] = useState('')
   const [recipient, setRecipient] = useState('')
+  const [recipientAddress, setRecipientAddress] = useState<Address>()
   const [amount, setAmount] = useState('')
+  const recentRecipient = useRecentRecipientRecorder()
+  const lookalike = useLookalikeCheck(recipientAddress)
+  const [review, setReview] = useState<TransferReview>()
+
+  // Tokens from the registry for the active chain
+  const { tokens: availableTokens } = useTokenList()
+  const selectedToken = availableTokens.find((token) => token.address === tokenAddress)
+  const { balance: tokenBalance } = useERC20Balance(selectedToken?.address)
+
+  const { amount: parsedAmount, error: amountError } = validateTokenAmount(
+    amount,
+    selectedToken?.decimals ?? 18
+  )
+  const transferArgs = useMemo(
+    () =>
+      recipientAddress && parsedAmount !== undefined && !amountError
+        ? [recipientAddress, parsedAmount]
+        : undefined,
+    [recipientAddress, parsedAmount, amountError]
+  )
+  const { gasLimit: estimatedGas } = useContractGasEstimate(
+    selectedToken?.address,
+    ERC20_ABI as Abi,
+    transferArgs ? 'transfer' : undefined,
+    transferArgs
+  )
+  const gas = useGasSettings(estimatedGas)
 
-  const { transfer, isPending, isConfirming } = useTokenTransfer(
+  const {
+    transfer,
+    speedUp,
+    cancel,
+    simulation,
+    isSimulating,
+    isPending,
+    isConfirming,
+    isReplacing,
+  } = useTokenTransfer(
     tokenAddress as Address,
     {
       onSuccess: (hash) => {
         toast.success(`Transaction submitted: ${hash}`)
         setRecipient('')
         setAmount('')
+        gas.clearNonce()
       },
+      onConfirmed: recentRecipient.record,
+    }
+  )
+
+  // Clear the selection when it is not available on the new chain
+  useEffect(() => {
+    if (tokenAddress && !selectedToken) {
+      setTokenAddress('')
     }
+  }, [tokenAddress, selectedToken])
+
+  const { request, clearRequest, handleRecipientChange } = usePaymentRequestPrefill(
+    'token',
+    setRecipient
   )
 
-  // Get available tokens for current chain
-  const availableTokens = chainId
-    ? [
-        {
-          symbol: 'USDC',
-          address: CONTRACT_ADDRESSES.USDC[chainId as keyof typeof CONTRACT_ADDRESSES.USDC],
-        },
-        {
-          symbol: 'USDT',
-          address: CONTRACT_ADDRESSES.USDT[chainId as keyof typeof CONTRACT_ADDRESSES.USDT],
-        },
-        {
-          symbol: 'DAI',
-          address: CONTRACT_ADDRESSES.DAI[chainId as keyof typeof CONTRACT_ADDRESSES.DAI],
-        },
-      ].filter((token) => token.address)
-    : []
-
-  const handleSubmit = async (e: React.FormEvent) => {
+  useEffect(() => {
+    if (!request || request.asset === 'native') return
+    clearRequest()
+
+    const token = availableTokens.find(
+      (candidate) => candidate.address.toLowerCase() === request.asset.toLowerCase()
+    )
+    if (!token) {
+      toast.error('Requested token is not in your token list', {
+        description: 'Import it from the Balances tab, then open the payment link again',
+      })
+      return
+    }
+
+    setTokenAddress(token.address)
+    setRecipient(request.to)
+    setAmount(request.amount !== undefined ? formatUnits(request.amount, token.decimals) : '')
+  }, [request, availableTokens, clearRequest])
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!isValidAddress(recipient)) {
+    if (!recipientAddress) {
       toast.error('Invalid recipient address')
       return
     }
 
+    if (lookalike.isBlocked) {
+      toast.error('Verify the recipient before sending')
+      return
+    }
+
     if (!tokenAddress || !isValidAddress(tokenAddress)) {
       toast.error('Invalid token address')
       return
     }
 
-    if (!amount || parseFloat(amount) <= 0) {
-      toast.error('Invalid amount')
+    if (!selectedToken) {
+      toast.error('Select a token')
+      return
+    }
+
+    const { amount: value, error } = validateTokenAmount(
+      amount,
+      selectedToken.decimals,
+      tokenBalance
+    )
+    if (!value || error) {
+      toast.error(error ?? 'Invalid amount')
+      return
+    }
+
+    if (gas.error) {
+      toast.error(gas.error)
       return
     }
 
+    setReview({
+      to: recipientAddress,
+      asset: selectedToken.address,
+      amount: value,
+      symbol: selectedToken.symbol,
+      decimals: selectedToken.decimals,
+      gasMode: gas.settings.mode,
+      overrides: gas.overrides,
+    })
+  }
+
+  const handleConfirm = async ({ to, amount: value, overrides }: TransferReview) => {
+    setReview(undefined)
+
     try {
-      await transfer(recipient as Address, parseTokenAmount(amount))
+      recentRecipient.track(to)
+      await transfer(to, value, overrides)
     } catch (error) {
+      recentRecipient.forget()
       console.error('Transfer failed:', error)
     }
   }
 
-  const isLoading = isPending || isConfirming
+  const isLoading = isSimulating || isPending || isConfirming
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
@@ -182,8 +510,9 @@ function TokenTransferForm() {
           </SelectTrigger>
           <SelectContent>
             {availableTokens.map((token) => (
-              <SelectItem key={token.address} value={token.address!}>
+              <SelectItem key={token.address} value={token.address}>
                 {token.symbol}
+                <span className="text-muted-foreground">{token.name}</span>
               </SelectItem>
             ))}
           </SelectContent>
@@ -192,41 +521,79 @@ function TokenTransferForm() {
 
       <div className="space-y-2">
         <Label htmlFor="token-recipient">Recipient Address</Label>
-        <Input
+        <AddressInput
           id="token-recipient"
-          placeholder="0x..."
           value={recipient}
-          onChange={(e) => setRecipient(e.target.value)}
+          onChange={handleRecipientChange}
+          onResolve={setRecipientAddress}
           disabled={isLoading}
+          showSuggestions
         />
+        {recipientAddress && (
+          <LookalikeWarning
+            id="token-lookalike-acknowledge"
+            recipient={recipientAddress}
+            matches={lookalike.matches}
+            acknowledged={lookalike.acknowledged}
+            onAcknowledgedChange={lookalike.setAcknowledged}
+          />
+        )}
       </div>
 
       <div className="space-y-2">
         <Label htmlFor="token-amount">Amount</Label>
-        <Input
+        <TokenAmountInput
           id="token-amount"
-          type="number"
-          step="0.000001"
-          placeholder="0.0"
           value={amount}
-          onChange={(e) => setAmount(e.target.value)}
-          disabled={isLoading}
+          onChange={setAmount}
+          asset={selectedToken?.address}
+          symbol={selectedToken?.symbol}
+          decimals={selectedToken?.decimals ?? 18}
+          balance={selectedToken ? tokenBalance : undefined}
+          disabled={isLoading || !selectedToken}
         />
       </div>
 
-      <Button type="submit" disabled={isLoading || !tokenAddress} className="w-full gap-2">
+      <AdvancedGasSettings id="token-gas" gas={gas} disabled={isLoading} />
+
+      <SimulationAlert simulation={simulation} />
+
+      <Button
+        type="submit"
+        disabled={isLoading || !tokenAddress || lookalike.isBlocked}
+        className="w-full gap-2"
+      >
         {isLoading ? (
           <>
             <Loader2 className="h-4 w-4 animate-spin" />
-            {isConfirming ? 'Confirming...' : 'Sending...'}
+            {isSimulating ? 'Simulating...' : isConfirming ? 'Confirming...' : 'Sending...'}
           </>
         ) : (
           <>
             <Send className="h-4 w-4" />
-            Send Token
+            Review Transfer
           </>
         )}
       </Button>
+
+      {isConfirming && (
+        <PendingTransactionActions
+          onSpeedUp={speedUp}
+          onCancel={async () => {
+            const result = await cancel()
+            // A cancelled transfer never reaches the recipient
+            recentRecipient.forget()
+            return result
+          }}
+          disabled={isReplacing}
+        />
+      )}
+
+      <TransferReviewDialog
+        transfer={review}
+        onOpenChange={(open) => !open && setReview(undefined)}
+        onConfirm={handleConfirm}
+      />
     </form>
   )
 }
@@ -235,6 +602,19 @@ function TokenTransferForm() {
  * Main transfer component with tabs
  */
 export function TransferForm() {
+  const { chainId, switchNetwork } = useWallet()
+  const request = usePaymentRequestStore((state) => state.request)
+  const clearRequest = usePaymentRequestStore((state) => state.clearRequest)
+  const [tab, setTab] = useState('native')
+
+  // Show the form an incoming payment request is for
+  useEffect(() => {
+    if (request) setTab(request.asset === 'native' ? 'native' : 'token')
+  }, [request])
+
+  const requestChainId = request?.chainId
+  const needsNetworkSwitch = !!requestChainId && requestChainId !== chainId
+
   return (
     <Card>
       <CardHeader>
@@ -243,14 +623,40 @@ export function TransferForm() {
           Transfer Assets
         </CardTitle>
         <CardDescription>
-          Send native tokens or ERC20 tokens to another address
+          Send native tokens or ERC20 tokens to one or many addresses
         </CardDescription>
       </CardHeader>
-      <CardContent>
-        <Tabs defaultValue="native" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+      <CardContent className="space-y-4">
+        {needsNetworkSwitch && (
+          <Alert>
+            <Network className="h-4 w-4" />
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>This payment request is for {getChainName(requestChainId)}</span>
+              <span className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    switchNetwork(requestChainId).catch(() =>
+                      toast.error('Failed to switch network')
+                    )
+                  }
+                >
+                  Switch network
+                </Button>
+                <Button size="sm" variant="ghost" onClick={clearRequest}>
+                  Dismiss
+                </Button>
+              </span>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs value={tab} onValueChange={setTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="native">Native Token</TabsTrigger>
             <TabsTrigger value="token">ERC20 Token</TabsTrigger>
+            <TabsTrigger value="multi">Multi-send</TabsTrigger>
           </TabsList>
           <TabsContent value="native" className="mt-4">
             <NativeTransferForm />
@@ -258,6 +664,9 @@ export function TransferForm() {
           <TabsContent value="token" className="mt-4">
             <TokenTransferForm />
           </TabsContent>
+          <TabsContent value="multi" className="mt-4">
+            <MultiSendForm />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
@@ -0,0 +1,313 @@
+/**
+ * Transfer Review Dialog Component
+ *
+ * Final check of a transfer, with its simulated outcome, before the wallet prompt
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Address } from 'viem'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Label } from '../ui/label'
+import { Skeleton } from '../ui/skeleton'
+import { Alert, AlertDescription } from '../ui/alert'
+import { AlertTriangle, ArrowRight, Send } from 'lucide-react'
+import { useAccount } from 'wagmi'
+import { useTransferPreview } from '../../hooks/web3/useTransferPreview'
+import { usePrices } from '../../hooks/web3/usePrices'
+import { getChainName, getNativeCurrency } from '../../lib/web3/chains'
+import type { BalanceChange } from '../../lib/web3/transferPreview'
+import {
+  GAS_MODE_LABELS,
+  type GasSettings,
+  type TransactionOverrides,
+} from '../../lib/web3/gasSettings'
+import { formatTokenBalance } from '../../utils/formatters'
+import { AddressDisplay } from './AddressDisplay'
+import { SimulationAlert } from './SimulationAlert'
+import { UsdValue } from './UsdValue'
+
+/**
+ * Transfers worth at least this much in USD need explicit confirmation
+ */
+const LARGE_TRANSFER_USD = 1_000
+
+/**
+ * Without a price, transfers of at least this share of the balance (in percent)
+ * need explicit confirmation
+ */
+const LARGE_TRANSFER_BALANCE_PERCENT = 50n
+
+/**
+ * Transfer awaiting review
+ */
+export interface TransferReview {
+  to: Address
+  asset: 'native' | Address
+  amount: bigint
+  symbol?: string
+  decimals: number
+  /** Advanced gas panel mode the overrides came from */
+  gasMode?: GasSettings['mode']
+  /** Gas limit, fee and nonce overrides to send with */
+  overrides?: TransactionOverrides
+}
+
+interface TransferReviewDialogProps {
+  transfer?: TransferReview
+  onOpenChange: (open: boolean) => void
+  onConfirm: (transfer: TransferReview) => void
+}
+
+/**
+ * One before/after balance row
+ */
+function BalanceRow({
+  label,
+  change,
+  decimals,
+  symbol,
+}: {
+  label: string
+  change: BalanceChange
+  decimals: number
+  symbol?: string
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-1">
+        {formatTokenBalance(change.before, decimals)}
+        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+        <span className={change.after < change.before ? 'text-destructive' : 'text-green-600'}>
+          {formatTokenBalance(change.after, decimals)}
+        </span>
+        {symbol}
+      </span>
+    </div>
+  )
+}
+
+/**
+ * Review dialog shown between the transfer form and the wallet
+ * Open while `transfer` is set
+ */
+export function TransferReviewDialog({ transfer, onOpenChange, onConfirm }: TransferReviewDialogProps) {
+  const { chainId } = useAccount()
+  const [acknowledged, setAcknowledged] = useState(false)
+  const { preview, isLoading, error, isFirstTime } = useTransferPreview(transfer)
+  const { getQuote, getUsdValue } = usePrices(
+    transfer ? Array.from(new Set(['native' as const, transfer.asset])) : []
+  )
+
+  // Every transfer needs its own confirmation
+  useEffect(() => {
+    setAcknowledged(false)
+  }, [transfer])
+
+  if (!transfer) return null
+
+  const nativeSymbol = chainId ? getNativeCurrency(chainId) : 'ETH'
+  const usdValue = getUsdValue(transfer.asset, transfer.amount, transfer.decimals)
+  const feeUsdValue = preview?.fee !== undefined ? getUsdValue('native', preview.fee, 18) : undefined
+
+  const isLarge =
+    usdValue !== undefined
+      ? usdValue >= LARGE_TRANSFER_USD
+      : !!preview &&
+        transfer.amount * 100n >= preview.sender.before * LARGE_TRANSFER_BALANCE_PERCENT
+  const needsAcknowledgement = isLarge || isFirstTime
+  const isReverted = preview?.simulation.status === 'reverted'
+  const insufficientNative = !!preview && preview.senderNative.after < 0n
+
+  const canConfirm =
+    !isLoading && !isReverted && !insufficientNative && (!needsAcknowledgement || acknowledged)
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Review Transfer</DialogTitle>
+          <DialogDescription>Check the details before confirming in your wallet</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-2 p-3 rounded-lg bg-muted">
+            <div className="flex items-start justify-between gap-2">
+              <span className="text-muted-foreground">To</span>
+              <div className="min-w-0 text-right space-y-1">
+                <AddressDisplay address={transfer.to} showAvatar className="justify-end" />
+                <code className="block break-all text-xs text-muted-foreground">
+                  {transfer.to}
+                </code>
+              </div>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Amount</span>
+              <div className="text-right">
+                <div>
+                  {formatTokenBalance(transfer.amount, transfer.decimals, 6)} {transfer.symbol}
+                </div>
+                <UsdValue
+                  value={usdValue}
+                  quote={getQuote(transfer.asset)}
+                  className="text-xs"
+                />
+              </div>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Token</span>
+              <span>
+                {transfer.asset === 'native' ? `${nativeSymbol} (native)` : transfer.symbol}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Network</span>
+              <span>{chainId ? getChainName(chainId) : 'Unknown'}</span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Max network fee</span>
+              {isLoading ? (
+                <Skeleton className="h-4 w-24" />
+              ) : preview?.fee !== undefined ? (
+                <div className="text-right">
+                  <div>
+                    {formatTokenBalance(preview.fee, 18, 6)} {nativeSymbol}
+                  </div>
+                  <UsdValue value={feeUsdValue} quote={getQuote('native')} className="text-xs" />
+                </div>
+              ) : (
+                <span className="text-muted-foreground">Unavailable</span>
+              )}
+            </div>
+            {!isLoading && preview?.l2ExecutionFee !== undefined && (
+              <div className="flex justify-between gap-2 text-xs text-muted-foreground">
+                <span>L2 execution</span>
+                <span>
+                  {formatTokenBalance(preview.l2ExecutionFee, 18, 6)} {nativeSymbol}
+                </span>
+              </div>
+            )}
+            {!isLoading && preview?.l1DataFee !== undefined && (
+              <div className="flex justify-between gap-2 text-xs text-muted-foreground">
+                <span>L1 data fee</span>
+                <span>
+                  {formatTokenBalance(preview.l1DataFee, 18, 6)} {nativeSymbol}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Fee tier</span>
+              <span>{GAS_MODE_LABELS[transfer.gasMode ?? 'auto']}</span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Gas limit</span>
+              {transfer.overrides?.gas !== undefined ? (
+                <span>{transfer.overrides.gas.toString()}</span>
+              ) : isLoading ? (
+                <Skeleton className="h-4 w-16" />
+              ) : (
+                <span>
+                  {preview?.gas !== undefined ? `${preview.gas.toString()} (estimated)` : 'Auto'}
+                </span>
+              )}
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Nonce</span>
+              <span>{transfer.overrides?.nonce ?? 'Auto'}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Balance changes</Label>
+            {isLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : error ? (
+              <p className="text-xs text-destructive">Could not simulate: {error.message}</p>
+            ) : preview ? (
+              <div className="space-y-1 p-3 rounded-lg border text-xs">
+                <BalanceRow
+                  label="You"
+                  change={preview.sender}
+                  decimals={transfer.decimals}
+                  symbol={transfer.symbol}
+                />
+                {transfer.asset !== 'native' && (
+                  <BalanceRow
+                    label="You (fee)"
+                    change={preview.senderNative}
+                    decimals={18}
+                    symbol={nativeSymbol}
+                  />
+                )}
+                <BalanceRow
+                  label="Recipient"
+                  change={preview.recipient}
+                  decimals={transfer.decimals}
+                  symbol={transfer.symbol}
+                />
+              </div>
+            ) : null}
+          </div>
+
+          <SimulationAlert simulation={preview?.simulation} />
+
+          {insufficientNative && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Not enough {nativeSymbol} to cover the amount and network fee
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {needsAcknowledgement && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="space-y-3">
+                <p>
+                  {isFirstTime && isLarge
+                    ? 'This is a large transfer to an address you have not sent to before.'
+                    : isFirstTime
+                      ? 'You have not sent to this address before.'
+                      : 'This is a large transfer.'}{' '}
+                  Transfers cannot be reversed.
+                </p>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="transfer-review-acknowledge"
+                    checked={acknowledged}
+                    onCheckedChange={(checked) => setAcknowledged(checked === true)}
+                  />
+                  <Label htmlFor="transfer-review-acknowledge">
+                    I have checked the recipient and amount
+                  </Label>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Back
+          </Button>
+          <Button onClick={() => onConfirm(transfer)} disabled={!canConfirm} className="gap-2">
+            <Send className="h-4 w-4" />
+            Confirm
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
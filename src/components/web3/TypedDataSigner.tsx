@@ -0,0 +1,152 @@
+/**
+ * Typed Data Signer Component
+ *
+ * Demonstrates EIP-712 signing with a review step and signature verification
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { Badge } from '../ui/badge'
+import { PenLine, CheckCircle, XCircle } from 'lucide-react'
+import { toast } from 'sonner@2.0.3'
+import { useSignTypedData } from '../../hooks/web3/useSignTypedData'
+import { useWallet } from '../../hooks/web3/useWallet'
+import { SignTypedDataDialog } from './SignTypedDataDialog'
+import { AddressDisplay } from './AddressDisplay'
+import type { TypedData } from '../../types/web3'
+
+/**
+ * Example payload from the EIP-712 specification
+ */
+function getExampleTypedData(chainId: number): TypedData {
+  return {
+    domain: {
+      name: 'Ether Mail',
+      version: '1',
+      chainId,
+      verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+    },
+    types: {
+      Person: [
+        { name: 'name', type: 'string' },
+        { name: 'wallet', type: 'address' },
+      ],
+      Mail: [
+        { name: 'from', type: 'Person' },
+        { name: 'to', type: 'Person' },
+        { name: 'contents', type: 'string' },
+      ],
+    },
+    primaryType: 'Mail',
+    message: {
+      from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+      to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+      contents: 'Hello, Bob!',
+    },
+  }
+}
+
+/**
+ * EIP-712 signing playground
+ */
+export function TypedDataSigner() {
+  const { chainId } = useWallet()
+  const [payload, setPayload] = useState(() =>
+    JSON.stringify(getExampleTypedData(chainId || 1), null, 2)
+  )
+  const { requestSignature, request, confirm, reject, result, isSigning } = useSignTypedData()
+
+  const handleReview = async () => {
+    let typedData: TypedData
+    try {
+      typedData = JSON.parse(payload) as TypedData
+    } catch {
+      toast.error('Invalid JSON payload')
+      return
+    }
+
+    if (!typedData.domain || !typedData.types || !typedData.primaryType || !typedData.message) {
+      toast.error('Payload must include domain, types, primaryType and message')
+      return
+    }
+
+    try {
+      await requestSignature(typedData)
+    } catch (error) {
+      // Rejections and failures are surfaced by useSignTypedData
+      console.error('Signature request failed:', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="h-5 w-5" />
+          Typed Data Signature
+        </CardTitle>
+        <CardDescription>
+          Review and sign an EIP-712 message, then verify it against your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="typed-data">Payload</Label>
+          <Textarea
+            id="typed-data"
+            value={payload}
+            onChange={(e) => setPayload(e.target.value)}
+            className="font-mono text-xs min-h-48"
+          />
+        </div>
+
+        <Button onClick={handleReview} disabled={isSigning} className="w-full gap-2">
+          <PenLine className="h-4 w-4" />
+          Review & Sign
+        </Button>
+
+        {result && (
+          <div className="space-y-2 p-3 rounded-lg bg-muted text-xs">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Recovered signer</span>
+              <div className="flex items-center gap-2">
+                {result.signer ? (
+                  <AddressDisplay address={result.signer} className="font-mono" />
+                ) : (
+                  <span className="text-muted-foreground">Not recoverable (smart account)</span>
+                )}
+                {result.isValid ? (
+                  <Badge variant="default" className="gap-1">
+                    <CheckCircle className="h-3 w-3" />
+                    Valid
+                  </Badge>
+                ) : (
+                  <Badge variant="destructive" className="gap-1">
+                    <XCircle className="h-3 w-3" />
+                    Invalid
+                  </Badge>
+                )}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <span className="text-muted-foreground">Signature</span>
+              <code className="block break-all">{result.signature}</code>
+            </div>
+          </div>
+        )}
+
+        <SignTypedDataDialog
+          request={request}
+          isSigning={isSigning}
+          onConfirm={confirm}
+          onReject={reject}
+        />
+      </CardContent>
+    </Card>
+  )
+}
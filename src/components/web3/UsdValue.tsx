@@ -0,0 +1,45 @@
+/**
+ * USD Value Component
+ *
+ * Displays a USD amount with a staleness indicator for its price
+ */
+
+'use client'
+
+import { Clock } from 'lucide-react'
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip'
+import { formatUSD, formatRelativeTime } from '../../utils/formatters'
+import type { PriceQuote } from '../../lib/web3/prices'
+
+interface UsdValueProps {
+  value?: number
+  quote?: PriceQuote
+  className?: string
+}
+
+/**
+ * USD value with price source and age on hover
+ * Renders nothing when no price is available
+ */
+export function UsdValue({ value, quote, className }: UsdValueProps) {
+  if (value === undefined || !quote) return null
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={`inline-flex items-center gap-1 ${
+            quote.isStale ? 'text-yellow-600 dark:text-yellow-500' : 'text-muted-foreground'
+          } ${className ?? ''}`}
+        >
+          ≈ {formatUSD(value)}
+          {quote.isStale && <Clock className="h-3 w-3" />}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        {quote.isStale ? 'Stale price' : 'Price'} from {quote.source},{' '}
+        updated {formatRelativeTime(quote.updatedAt / 1000)}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
@@ -19,7 +19,7 @@ import {
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu'
 import { WalletConnectModal } from './WalletConnectModal'
-import { formatAddress } from '../../utils/formatters'
+import { AddressDisplay } from './AddressDisplay'
 import { Wallet, ChevronDown, LogOut, Copy, ExternalLink } from 'lucide-react'
 import { toast } from 'sonner@2.0.3'
 import { getAddressExplorerUrl } from '../../lib/web3/chains'
@@ -51,7 +51,7 @@ export function WalletConnect() {
     }
   }
 
-  if (!isConnected) {
+  if (!isConnected || !address) {
     return (
       <>
         <Button
@@ -75,7 +75,7 @@ export function WalletConnect() {
       <DropdownMenuTrigger asChild>
         <Button variant="outline" className="gap-2">
           <Wallet className="h-4 w-4" />
-          <span className="hidden sm:inline">{formatAddress(address)}</span>
+          <AddressDisplay address={address} showAvatar className="hidden sm:inline-flex" />
           <ChevronDown className="h-4 w-4" />
         </Button>
       </DropdownMenuTrigger>
@@ -0,0 +1,29 @@
+/**
+ * Disperse Contract ABI
+ *
+ * Sends native currency or an ERC20 token to many recipients in one transaction
+ */
+
+export const DISPERSE_ABI = [
+  {
+    inputs: [
+      { name: 'recipients', type: 'address[]' },
+      { name: 'values', type: 'uint256[]' },
+    ],
+    name: 'disperseEther',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'recipients', type: 'address[]' },
+      { name: 'values', type: 'uint256[]' },
+    ],
+    name: 'disperseToken',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
@@ -0,0 +1,23 @@
+/**
+ * ERC1271 Signature Validation ABI
+ * 
+ * Standard interface for contract wallets to validate signatures
+ */
+
+export const ERC1271_ABI = [
+  {
+    inputs: [
+      { name: 'hash', type: 'bytes32' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    name: 'isValidSignature',
+    outputs: [{ name: 'magicValue', type: 'bytes4' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+/**
+ * Value returned by isValidSignature for a valid signature
+ */
+export const ERC1271_MAGIC_VALUE = '0x1626ba7e' as const
@@ -0,0 +1,22 @@
+/**
+ * OP Stack GasPriceOracle ABI
+ *
+ * Predeploy that prices the L1 data fee of an L2 transaction
+ */
+
+export const GAS_PRICE_ORACLE_ABI = [
+  {
+    inputs: [{ name: '_data', type: 'bytes' }],
+    name: 'getL1Fee',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: '_data', type: 'bytes' }],
+    name: 'getL1GasUsed',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
@@ -0,0 +1,24 @@
+/**
+ * Arbitrum NodeInterface ABI
+ *
+ * Virtual contract answering fee queries; it has no code and only works in eth_call
+ */
+
+export const NODE_INTERFACE_ABI = [
+  {
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'contractCreation', type: 'bool' },
+      { name: 'data', type: 'bytes' },
+    ],
+    name: 'gasEstimateComponents',
+    outputs: [
+      { name: 'gasEstimate', type: 'uint64' },
+      { name: 'gasEstimateForL1', type: 'uint64' },
+      { name: 'baseFee', type: 'uint256' },
+      { name: 'l1BaseFeeEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const
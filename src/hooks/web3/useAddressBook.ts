@@ -0,0 +1,90 @@
+/**
+ * Address Book Hook
+ *
+ * Custom hook for saved contacts and recent recipients on the connected chain
+ */
+
+import { useCallback, useMemo } from 'react'
+import { useAccount } from 'wagmi'
+import type { Address } from 'viem'
+import { useAddressBookStore } from '../../store/addressBookStore'
+import type { AddressBookEntry } from '../../types/web3'
+
+/**
+ * Recipient suggestion for address autocomplete
+ */
+export interface AddressSuggestion {
+  address: Address
+  label?: string
+  note?: string
+  isRecent: boolean
+}
+
+/**
+ * Hook for the address book scoped to a chain
+ * @param chainId - Optional chain ID (defaults to the connected chain)
+ * @returns Contacts, recent recipients and lookup helpers
+ */
+export function useAddressBook(chainId?: number) {
+  const { chainId: accountChainId } = useAccount()
+  const targetChainId = chainId ?? accountChainId
+  const allContacts = useAddressBookStore((state) => state.contacts)
+  const allRecents = useAddressBookStore((state) => state.recents)
+
+  // Chain-specific contacts take precedence over ones saved for every chain
+  const contacts = useMemo(
+    () =>
+      allContacts
+        .filter((entry) => entry.chainId === undefined || entry.chainId === targetChainId)
+        .sort((a, b) => Number(b.chainId !== undefined) - Number(a.chainId !== undefined)),
+    [allContacts, targetChainId]
+  )
+
+  const recents = useMemo(
+    () => allRecents.filter((recent) => recent.chainId === targetChainId),
+    [allRecents, targetChainId]
+  )
+
+  /**
+   * Find the contact saved for an address
+   */
+  const getContact = useCallback(
+    (address: string): AddressBookEntry | undefined =>
+      contacts.find((entry) => entry.address.toLowerCase() === address.toLowerCase()),
+    [contacts]
+  )
+
+  /**
+   * Recent recipients and contacts matching a label, note or address fragment
+   */
+  const search = useCallback(
+    (query: string): AddressSuggestion[] => {
+      const needle = query.trim().toLowerCase()
+      const seen = new Set<string>()
+      const suggestions: AddressSuggestion[] = []
+
+      const add = (address: Address, isRecent: boolean) => {
+        const key = address.toLowerCase()
+        if (seen.has(key)) return
+        const contact = getContact(address)
+        const haystack = [key, contact?.label, contact?.note].join(' ').toLowerCase()
+        if (needle && !haystack.includes(needle)) return
+        seen.add(key)
+        suggestions.push({ address, label: contact?.label, note: contact?.note, isRecent })
+      }
+
+      recents.forEach((recent) => add(recent.address, true))
+      contacts.forEach((entry) => add(entry.address, false))
+      return suggestions
+    },
+    [contacts, recents, getContact]
+  )
+
+  return {
+    chainId: targetChainId,
+    contacts,
+    recents,
+    getContact,
+    search,
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Address Poisoning Hook
+ *
+ * Custom hook for warning before funds go to a look-alike of a known address
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import type { Address } from 'viem'
+import { findLookalikes, type KnownAddress } from '../../lib/web3/addressPoisoning'
+import { useAddressBook } from './useAddressBook'
+import { useTransactionHistory } from './useTransactionHistory'
+
+/**
+ * Hook for checking a recipient against the address book and history
+ * The warning blocks sending until the user acknowledges it, and
+ * resets whenever the recipient changes
+ * @param recipient - Resolved recipient address
+ * @returns Look-alike matches and acknowledgement state
+ */
+export function useLookalikeCheck(recipient: Address | undefined) {
+  const { contacts, recents, getContact } = useAddressBook()
+  const { transactions } = useTransactionHistory()
+  const [acknowledged, setAcknowledged] = useState(false)
+
+  const known = useMemo((): KnownAddress[] => {
+    const entries: KnownAddress[] = [
+      ...contacts.map((entry) => ({
+        address: entry.address,
+        label: entry.label,
+        source: 'contact' as const,
+      })),
+      ...recents.map((recent) => ({ address: recent.address, source: 'recent' as const })),
+      ...transactions
+        .filter((tx) => tx.to)
+        .map((tx) => ({ address: tx.to!, source: 'history' as const })),
+    ]
+
+    return entries.map((entry) => ({
+      ...entry,
+      label: entry.label ?? getContact(entry.address)?.label,
+    }))
+  }, [contacts, recents, transactions, getContact])
+
+  const matches = useMemo(
+    () => (recipient ? findLookalikes(recipient, known) : []),
+    [recipient, known]
+  )
+
+  useEffect(() => {
+    setAcknowledged(false)
+  }, [recipient])
+
+  return {
+    matches,
+    acknowledged,
+    setAcknowledged,
+    isBlocked: matches.length > 0 && !acknowledged,
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Allowance Manager Hooks
+ *
+ * Custom hooks for discovering and revoking ERC20 approvals
+ */
+
+import { useState, useCallback } from 'react'
+import { useAccount, usePublicClient } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import type { Abi, Address, ContractFunctionParameters, Hash } from 'viem'
+import { ERC20_ABI } from '../../contracts/abis/ERC20'
+import {
+  approveWithReset,
+  scanApprovals,
+  isUnlimitedAllowance,
+  type ApprovalLookback,
+} from '../../lib/web3/approvals'
+import { useContractWrite } from './useContractWrite'
+import { useTokenList } from './useTokenList'
+
+/**
+ * Default number of days scanned for Approval logs
+ */
+const DEFAULT_LOOKBACK_DAYS = 365
+
+/**
+ * Current approval granted by the owner
+ */
+export interface TokenAllowance {
+  token: Address
+  spender: Address
+  symbol: string
+  decimals: number
+  allowance: bigint
+  isUnlimited: boolean
+  lastApprovedBlock: bigint
+}
+
+/**
+ * New allowance to set for a token/spender pair (0n revokes)
+ */
+export interface AllowanceUpdate {
+  token: Address
+  spender: Address
+  amount: bigint
+}
+
+/**
+ * Get a unique key for a token/spender pair
+ */
+export function getAllowanceKey(token: Address, spender: Address): string {
+  return `${token.toLowerCase()}:${spender.toLowerCase()}`
+}
+
+/**
+ * Hook to list the connected wallet's active ERC20 approvals
+ * @param options - Days to scan back, or 'all' for the whole chain history
+ * @returns Non-zero allowances, most recently approved first, and the scanned block range
+ */
+export function useAllowances(options: { lookback?: ApprovalLookback } = {}) {
+  const { address, chainId } = useAccount()
+  const publicClient = usePublicClient()
+  const { tokens } = useTokenList()
+  const lookback = options.lookback ?? DEFAULT_LOOKBACK_DAYS
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ['allowances', chainId, address, lookback],
+    queryFn: async () => {
+      const scan = await scanApprovals(publicClient!, address!, { lookback })
+      const discovered = scan.approvals
+      const range = { fromBlock: scan.fromBlock, toBlock: scan.toBlock }
+      if (discovered.length === 0) return { allowances: [], range }
+
+      // Current allowance plus metadata for tokens outside the registry
+      const results = await publicClient!.multicall({
+        allowFailure: true,
+        contracts: discovered.flatMap(({ token, spender }) => [
+          { address: token, abi: ERC20_ABI, functionName: 'allowance', args: [address, spender] },
+          { address: token, abi: ERC20_ABI, functionName: 'symbol' },
+          { address: token, abi: ERC20_ABI, functionName: 'decimals' },
+        ]) as ContractFunctionParameters[],
+      })
+
+      const allowances: TokenAllowance[] = discovered
+        .map((approval, index) => {
+          const [allowance, symbol, decimals] = results.slice(index * 3, index * 3 + 3)
+          const listed = tokens.find(
+            (token) => token.address.toLowerCase() === approval.token.toLowerCase()
+          )
+          const value = allowance.status === 'success' ? (allowance.result as bigint) : 0n
+
+          return {
+            ...approval,
+            symbol:
+              listed?.symbol ?? (symbol.status === 'success' ? (symbol.result as string) : '???'),
+            decimals:
+              listed?.decimals ??
+              (decimals.status === 'success' ? (decimals.result as number) : 18),
+            allowance: value,
+            isUnlimited: isUnlimitedAllowance(value),
+          }
+        })
+        .filter((approval) => approval.allowance > 0n)
+
+      return { allowances, range }
+    },
+    enabled: !!address && !!publicClient,
+    staleTime: 30_000,
+    retry: 1,
+  })
+
+  return {
+    allowances: data?.allowances ?? [],
+    scannedRange: data?.range,
+    isLoading,
+    isFetching,
+    error: error as Error | null,
+    refetch,
+  }
+}
+
+/**
+ * Hook to revoke or reduce several allowances
+ * Each update is its own approve transaction, submitted one after another
+ * @returns Bulk update function and per-pair transaction hashes
+ */
+export function useUpdateAllowances() {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { write, isSimulating, isPending } = useContractWrite()
+  const [submitted, setSubmitted] = useState<Record<string, Hash>>({})
+  const [isUpdating, setIsUpdating] = useState(false)
+
+  /**
+   * Submit approve(spender, amount) for each update
+   * Tokens that need a reset to zero get one first (see approveWithReset)
+   * Stops at the first rejection; earlier submissions are kept
+   * @param updates - Allowances to set
+   * @returns Hashes of the submitted transactions
+   */
+  const updateAllowances = useCallback(
+    async (updates: AllowanceUpdate[]) => {
+      setIsUpdating(true)
+      const hashes: Hash[] = []
+
+      try {
+        for (const { token, spender, amount } of updates) {
+          const key = getAllowanceKey(token, spender)
+          const approve = async (value: bigint) => {
+            const hash = await write(token, ERC20_ABI as Abi, 'approve', [spender, value])
+            hashes.push(hash)
+            setSubmitted((previous) => ({ ...previous, [key]: hash }))
+            return hash
+          }
+
+          if (publicClient && address) {
+            await approveWithReset(publicClient, approve, {
+              owner: address,
+              token,
+              spender,
+              amount,
+            })
+          } else {
+            await approve(amount)
+          }
+        }
+      } finally {
+        setIsUpdating(false)
+      }
+
+      return hashes
+    },
+    [write, publicClient, address]
+  )
+
+  return {
+    updateAllowances,
+    submitted,
+    isUpdating: isUpdating || isSimulating || isPending,
+  }
+}
@@ -5,16 +5,170 @@
  */
 
 import { useState, useCallback, useEffect } from 'react'
-import { useWriteContract, useWaitForTransactionReceipt, useSendTransaction as useWagmiSendTransaction } from 'wagmi'
-import type { Address, Abi } from 'viem'
+import {
+  useAccount,
+  usePublicClient,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+  useSendTransaction as useWagmiSendTransaction,
+} from 'wagmi'
+import { isAddress } from 'viem'
+import type { Address, Abi, PublicClient, Transaction, TransactionReceipt } from 'viem'
 import type { Hash } from 'viem'
 import { toast } from 'sonner@2.0.3'
-import { parseWeb3Error } from '../../lib/utils/errors'
+import { parseWeb3Error, Web3Error, Web3ErrorType } from '../../lib/utils/errors'
+import {
+  simulateTransfer,
+  simulateWrite,
+  type SimulationResult,
+} from '../../lib/web3/simulation'
+import type { TransactionOverrides } from '../../lib/web3/gasSettings'
+import { getHistoryKey, useTransactionStore } from '../../store/transactionStore'
+import { useTransactionRecorder } from './useTransactionHistory'
 
 interface UseContractWriteOptions {
   onSuccess?: (txHash: Hash) => void
   onError?: (error: Error) => void
-  onConfirmed?: (receipt: unknown) => void
+  /** Called for every mined receipt, including reverted ones */
+  onConfirmed?: (receipt: TransactionReceipt) => void
+  /**
+   * What to do when the pre-flight simulation reverts
+   * 'block' stops before the wallet prompt, 'warn' shows the reason and continues
+   * @default 'block'
+   */
+  simulation?: 'block' | 'warn' | 'skip'
+}
+
+/**
+ * Fee bump applied to replacements, in per mille
+ * Nodes reject replacements that raise fees by less than 10%
+ */
+const REPLACEMENT_FEE_BUMP = 1125n
+
+function bumpFee(fee: bigint): bigint {
+  return (fee * REPLACEMENT_FEE_BUMP) / 1000n + 1n
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
+
+/**
+ * Calculate fees for a same-nonce replacement
+ * Uses the bumped original fees or the current network fees, whichever is higher
+ */
+async function getReplacementFees(client: PublicClient, original: Transaction) {
+  if (original.maxFeePerGas !== undefined && original.maxPriorityFeePerGas !== undefined) {
+    const current = await client.estimateFeesPerGas().catch(() => undefined)
+    const maxPriorityFeePerGas = maxBigInt(
+      bumpFee(original.maxPriorityFeePerGas),
+      current?.maxPriorityFeePerGas ?? 0n
+    )
+    const maxFeePerGas = maxBigInt(
+      maxBigInt(bumpFee(original.maxFeePerGas), current?.maxFeePerGas ?? 0n),
+      maxPriorityFeePerGas
+    )
+
+    return { maxFeePerGas, maxPriorityFeePerGas }
+  }
+
+  const gasPrice = await client.getGasPrice().catch(() => 0n)
+  return { gasPrice: maxBigInt(bumpFee(original.gasPrice ?? 0n), gasPrice) }
+}
+
+/**
+ * Hook to speed up or cancel a pending transaction by replacing its nonce
+ * @param options - Called with the original and replacement hashes
+ * @returns Speed up and cancel functions
+ */
+export function useReplaceTransaction(options?: {
+  onReplaced?: (originalHash: Hash, replacementHash: Hash) => void
+}) {
+  const { address, chainId } = useAccount()
+  const publicClient = usePublicClient()
+  const { sendTransactionAsync, isPending: isReplacing } = useWagmiSendTransaction()
+  const addTransaction = useTransactionStore((state) => state.addTransaction)
+  const updateTransaction = useTransactionStore((state) => state.updateTransaction)
+
+  const replace = useCallback(
+    async (hash: Hash, mode: 'speedUp' | 'cancel') => {
+      const isCancel = mode === 'cancel'
+
+      try {
+        if (!publicClient || !address || !chainId) {
+          throw new Error('Wallet not connected')
+        }
+
+        const original = await publicClient.getTransaction({ hash })
+        if (original.blockNumber !== null) {
+          throw new Error('Transaction is already confirmed')
+        }
+        if (original.from.toLowerCase() !== address.toLowerCase()) {
+          throw new Error('Transaction was sent from a different account')
+        }
+
+        const fees = await getReplacementFees(publicClient, original)
+        const replacementHash = await sendTransactionAsync({
+          to: isCancel ? original.from : original.to ?? undefined,
+          value: isCancel ? 0n : original.value,
+          data: isCancel ? undefined : original.input,
+          // Cancels are left to the wallet's estimate; rollups charge more than 21000 gas
+          gas: isCancel ? undefined : original.gas,
+          nonce: original.nonce,
+          ...fees,
+        })
+
+        const recorded = useTransactionStore
+          .getState()
+          .history[getHistoryKey(address, chainId)]?.find((tx) => tx.hash === hash)
+
+        addTransaction(chainId, {
+          hash: replacementHash,
+          from: address,
+          to: isCancel ? address : original.to,
+          recipient: isCancel ? undefined : recorded?.recipient,
+          value: isCancel ? 0n : original.value,
+          timestamp: Math.floor(Date.now() / 1000),
+          status: 'pending',
+          type: isCancel ? 'cancel' : recorded?.type,
+          nonce: original.nonce,
+          replaces: hash,
+        })
+        updateTransaction(hash, { replacedBy: replacementHash, nonce: original.nonce })
+
+        toast.dismiss(hash)
+        toast.loading(isCancel ? 'Cancellation Submitted' : 'Speed Up Submitted', {
+          description: 'Waiting for confirmation...',
+          id: replacementHash,
+        })
+        options?.onReplaced?.(hash, replacementHash)
+
+        return replacementHash
+      } catch (error) {
+        toast.error(isCancel ? 'Cancellation Failed' : 'Speed Up Failed', {
+          description: parseWeb3Error(error),
+        })
+        throw error
+      }
+    },
+    [publicClient, address, chainId, sendTransactionAsync, addTransaction, updateTransaction, options]
+  )
+
+  /**
+   * Re-send the same payload with bumped fees and the same nonce
+   */
+  const speedUp = useCallback((hash: Hash) => replace(hash, 'speedUp'), [replace])
+
+  /**
+   * Replace with a 0-value self-transfer using the same nonce
+   */
+  const cancel = useCallback((hash: Hash) => replace(hash, 'cancel'), [replace])
+
+  return {
+    speedUp,
+    cancel,
+    isReplacing,
+  }
 }
 
 /**
@@ -24,9 +178,21 @@ interface UseContractWriteOptions {
  */
 export function useContractWrite(options?: UseContractWriteOptions) {
   const [txHash, setTxHash] = useState<Hash | undefined>()
+  const [simulation, setSimulation] = useState<SimulationResult | undefined>()
+  const [isSimulating, setIsSimulating] = useState(false)
+  const { address: account } = useAccount()
+  const publicClient = usePublicClient()
+  const { recordTransaction, recordReceipt } = useTransactionRecorder()
+  const {
+    speedUp: speedUpTransaction,
+    cancel: cancelTransaction,
+    isReplacing,
+  } = useReplaceTransaction({
+    onReplaced: (_, replacementHash) => setTxHash(replacementHash),
+  })
   
   const {
-    writeContract,
+    writeContractAsync,
     data: hash,
     isPending,
     error: writeError,
@@ -49,9 +215,12 @@ export function useContractWrite(options?: UseContractWriteOptions) {
       toast.success('Transaction Confirmed!', {
         description: `Hash: ${txHash.slice(0, 10)}...${txHash.slice(-8)}`,
       })
-      options?.onConfirmed?.(receipt)
+      if (receipt) {
+        recordReceipt(receipt)
+        options?.onConfirmed?.(receipt)
+      }
     }
-  }, [isConfirmed, txHash, receipt, options])
+  }, [isConfirmed, txHash, receipt, options, recordReceipt])
 
   useEffect(() => {
     if (confirmError && txHash) {
@@ -65,6 +234,7 @@ export function useContractWrite(options?: UseContractWriteOptions) {
 
   /**
    * Execute contract write
+   * Overrides from the advanced gas panel replace the wallet's fees, gas limit and nonce
    */
   const write = useCallback(
     async (
@@ -72,18 +242,62 @@ export function useContractWrite(options?: UseContractWriteOptions) {
       abi: Abi,
       functionName: string,
       args?: unknown[],
-      value?: bigint
+      value?: bigint,
+      overrides?: TransactionOverrides
     ) => {
+      const simulationMode = options?.simulation ?? 'block'
+
       try {
-        const hash = await writeContract({
+        // Dry-run against the pending block before prompting the wallet
+        if (simulationMode !== 'skip' && publicClient && account) {
+          setSimulation(undefined)
+          setIsSimulating(true)
+          const result = await simulateWrite(publicClient, {
+            account,
+            address,
+            abi,
+            functionName,
+            args,
+            value,
+          }).finally(() => setIsSimulating(false))
+          setSimulation(result)
+
+          if (result.status === 'reverted') {
+            if (simulationMode === 'block') {
+              throw new Web3Error(
+                Web3ErrorType.CONTRACT_ERROR,
+                `Transaction would revert: ${result.revert.reason}`
+              )
+            }
+            toast.warning('Transaction will likely revert', {
+              description: result.revert.reason,
+            })
+          } else if (result.status === 'unavailable') {
+            toast.warning('Could not simulate transaction', {
+              description: parseWeb3Error(result.error),
+            })
+          }
+        }
+
+        const hash = await writeContractAsync({
           address,
           abi,
           functionName,
           args,
           value,
+          ...overrides,
         })
 
         setTxHash(hash)
+        // ERC20 transfer(to, amount) pays its first argument, not the token contract
+        const recipient = functionName === 'transfer' ? args?.[0] : undefined
+        recordTransaction(hash, {
+          to: address,
+          recipient: typeof recipient === 'string' && isAddress(recipient) ? recipient : undefined,
+          value,
+          type: functionName,
+          nonce: overrides?.nonce,
+        })
         toast.success('Transaction submitted!')
         options?.onSuccess?.(hash)
         
@@ -95,15 +309,44 @@ export function useContractWrite(options?: UseContractWriteOptions) {
         throw error
       }
     },
-    [writeContract, options]
+    [writeContractAsync, recordTransaction, publicClient, account, options]
+  )
+
+  /**
+   * Speed up the given or most recent pending transaction
+   */
+  const speedUp = useCallback(
+    async (targetHash?: Hash) => {
+      const pendingHash = targetHash || txHash
+      if (!pendingHash) throw new Error('No transaction to speed up')
+      return speedUpTransaction(pendingHash)
+    },
+    [speedUpTransaction, txHash]
+  )
+
+  /**
+   * Cancel the given or most recent pending transaction
+   */
+  const cancel = useCallback(
+    async (targetHash?: Hash) => {
+      const pendingHash = targetHash || txHash
+      if (!pendingHash) throw new Error('No transaction to cancel')
+      return cancelTransaction(pendingHash)
+    },
+    [cancelTransaction, txHash]
   )
 
   return {
     write,
+    speedUp,
+    cancel,
+    simulation,
+    isSimulating,
     hash: txHash || hash,
     isPending,
     isConfirming,
     isConfirmed,
+    isReplacing,
     error: writeError || confirmError,
   }
 }
@@ -115,7 +358,7 @@ export function useTokenTransfer(tokenAddress: Address, options?: UseContractWri
   const { write, ...rest } = useContractWrite(options)
 
   const transfer = useCallback(
-    async (to: Address, amount: bigint) => {
+    async (to: Address, amount: bigint, overrides?: TransactionOverrides) => {
       const ERC20_ABI = [
         {
           name: 'transfer',
@@ -129,7 +372,7 @@ export function useTokenTransfer(tokenAddress: Address, options?: UseContractWri
         },
       ] as const
 
-      return write(tokenAddress, ERC20_ABI, 'transfer', [to, amount])
+      return write(tokenAddress, ERC20_ABI, 'transfer', [to, amount], undefined, overrides)
     },
     [write, tokenAddress]
   )
@@ -211,6 +454,18 @@ export function useNFTTransfer(nftAddress: Address, options?: UseContractWriteOp
 export function useSendTransaction(options?: UseContractWriteOptions) {
   const { sendTransactionAsync, data: hash, isPending, error } = useWagmiSendTransaction()
   const [txHash, setTxHash] = useState<Hash | undefined>()
+  const [simulation, setSimulation] = useState<SimulationResult | undefined>()
+  const [isSimulating, setIsSimulating] = useState(false)
+  const { address: account } = useAccount()
+  const publicClient = usePublicClient()
+  const { recordTransaction, recordReceipt } = useTransactionRecorder()
+  const {
+    speedUp: speedUpTransaction,
+    cancel: cancelTransaction,
+    isReplacing,
+  } = useReplaceTransaction({
+    onReplaced: (_, replacementHash) => setTxHash(replacementHash),
+  })
 
   const { 
     isLoading: isConfirming, 
@@ -229,9 +484,12 @@ export function useSendTransaction(options?: UseContractWriteOptions) {
       toast.success('Transfer Successful!', {
         description: `Transaction confirmed: ${txHash.slice(0, 10)}...${txHash.slice(-8)}`,
       })
-      options?.onConfirmed?.(receipt)
+      if (receipt) {
+        recordReceipt(receipt)
+        options?.onConfirmed?.(receipt)
+      }
     }
-  }, [isConfirmed, txHash, receipt, options])
+  }, [isConfirmed, txHash, receipt, options, recordReceipt])
 
   useEffect(() => {
     if (confirmError && txHash) {
@@ -244,14 +502,50 @@ export function useSendTransaction(options?: UseContractWriteOptions) {
   }, [confirmError, txHash])
 
   const sendTransaction = useCallback(
-    async (to: Address, value: bigint) => {
+    async (to: Address, value: bigint, overrides?: TransactionOverrides) => {
+      const simulationMode = options?.simulation ?? 'block'
+
       try {
+        // Dry-run against the pending block so rejecting recipients fail before the wallet prompt
+        if (simulationMode !== 'skip' && publicClient && account) {
+          setSimulation(undefined)
+          setIsSimulating(true)
+          const result = await simulateTransfer(publicClient, { account, to, value }).finally(
+            () => setIsSimulating(false)
+          )
+          setSimulation(result)
+
+          if (result.status === 'reverted') {
+            if (simulationMode === 'block') {
+              throw new Web3Error(
+                Web3ErrorType.CONTRACT_ERROR,
+                `Transaction would revert: ${result.revert.reason}`
+              )
+            }
+            toast.warning('Transaction will likely revert', {
+              description: result.revert.reason,
+            })
+          } else if (result.status === 'unavailable') {
+            toast.warning('Could not simulate transaction', {
+              description: parseWeb3Error(result.error),
+            })
+          }
+        }
+
         const hash = await sendTransactionAsync({
           to,
           value,
+          ...overrides,
         })
 
         setTxHash(hash)
+        recordTransaction(hash, {
+          to,
+          recipient: to,
+          value,
+          type: 'send',
+          nonce: overrides?.nonce,
+        })
         toast.loading('Transaction Submitted', {
           description: 'Waiting for confirmation...',
           id: hash,
@@ -268,15 +562,44 @@ export function useSendTransaction(options?: UseContractWriteOptions) {
         throw error
       }
     },
-    [sendTransactionAsync, options]
+    [sendTransactionAsync, recordTransaction, publicClient, account, options]
+  )
+
+  /**
+   * Speed up the given or most recent pending transaction
+   */
+  const speedUp = useCallback(
+    async (targetHash?: Hash) => {
+      const pendingHash = targetHash || txHash
+      if (!pendingHash) throw new Error('No transaction to speed up')
+      return speedUpTransaction(pendingHash)
+    },
+    [speedUpTransaction, txHash]
+  )
+
+  /**
+   * Cancel the given or most recent pending transaction
+   */
+  const cancel = useCallback(
+    async (targetHash?: Hash) => {
+      const pendingHash = targetHash || txHash
+      if (!pendingHash) throw new Error('No transaction to cancel')
+      return cancelTransaction(pendingHash)
+    },
+    [cancelTransaction, txHash]
   )
 
   return {
     sendTransaction,
+    speedUp,
+    cancel,
+    simulation,
+    isSimulating,
     hash: txHash || hash,
     isPending,
     isConfirming,
     isConfirmed,
+    isReplacing,
     error,
   }
 }
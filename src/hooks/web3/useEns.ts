@@ -0,0 +1,130 @@
+/**
+ * ENS Hooks
+ *
+ * Custom hooks for ENS name resolution, verified reverse lookup and avatars
+ */
+
+import { useEnsAddress, useEnsAvatar, useEnsName } from 'wagmi'
+import { getAddress, isAddressEqual } from 'viem'
+import type { Address } from 'viem'
+import { normalize } from 'viem/ens'
+import { ChainId } from '../../lib/web3/config'
+import { hasInvalidChecksum, isValidAddress } from '../../utils/formatters'
+
+/**
+ * ENS records are read from mainnet regardless of the connected chain
+ */
+const ENS_CHAIN_ID = ChainId.MAINNET
+
+/**
+ * How long ENS lookups stay cached (1 hour)
+ */
+const ENS_CACHE_TIME = 60 * 60 * 1000
+
+const ENS_QUERY_OPTIONS = {
+  staleTime: ENS_CACHE_TIME,
+  gcTime: ENS_CACHE_TIME,
+  retry: 1,
+} as const
+
+/**
+ * Check whether input looks like an ENS name rather than an address
+ * @param value - User input
+ * @returns True for dotted names such as vitalik.eth
+ */
+export function isEnsName(value: string): boolean {
+  const trimmed = value.trim()
+  return trimmed.includes('.') && !trimmed.startsWith('0x') && !trimmed.endsWith('.')
+}
+
+/**
+ * Normalize an ENS name, returning undefined for invalid names
+ */
+function safeNormalize(name: string): string | undefined {
+  try {
+    return normalize(name.trim())
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Hook to resolve an address input that may be an ENS name
+ * @param input - Raw address or ENS name
+ * @returns Resolved address and resolution state
+ */
+export function useEnsResolution(input: string) {
+  const trimmed = input.trim()
+  const isName = isEnsName(trimmed)
+  const name = isName ? safeNormalize(trimmed) : undefined
+
+  const { data: resolved, isLoading, error } = useEnsAddress({
+    name,
+    chainId: ENS_CHAIN_ID,
+    query: { ...ENS_QUERY_OPTIONS, enabled: !!name },
+  })
+
+  const address: Address | undefined = isName
+    ? resolved ?? undefined
+    : isValidAddress(trimmed)
+      ? getAddress(trimmed)
+      : undefined
+
+  let resolutionError: string | undefined
+  if (isName && !name) {
+    resolutionError = 'Invalid ENS name'
+  } else if (isName && !isLoading && (error || !resolved)) {
+    resolutionError = `${trimmed} does not resolve to an address`
+  } else if (!isName && hasInvalidChecksum(trimmed)) {
+    resolutionError = 'Address checksum is invalid; check it was copied correctly'
+  } else if (!isName && trimmed && !address) {
+    resolutionError = 'Enter a valid address or ENS name'
+  }
+
+  return {
+    address,
+    name: isName ? name : undefined,
+    isName,
+    isResolving: isName && !!name && isLoading,
+    error: resolutionError,
+  }
+}
+
+/**
+ * Hook for the display name of an address
+ * The reverse record is only trusted if the name resolves back to the same address
+ * @param address - Address to look up
+ * @returns Verified ENS name and avatar URL
+ */
+export function useEnsIdentity(address: Address | undefined) {
+  const { data: reverseName, isLoading: isLoadingName } = useEnsName({
+    address,
+    chainId: ENS_CHAIN_ID,
+    query: { ...ENS_QUERY_OPTIONS, enabled: !!address },
+  })
+
+  const normalizedName = reverseName ? safeNormalize(reverseName) : undefined
+
+  // Forward-verify, since anyone can set a reverse record pointing at any name
+  const { data: forwardAddress, isLoading: isVerifying } = useEnsAddress({
+    name: normalizedName,
+    chainId: ENS_CHAIN_ID,
+    query: { ...ENS_QUERY_OPTIONS, enabled: !!normalizedName },
+  })
+
+  const isVerified =
+    !!address && !!forwardAddress && isAddressEqual(forwardAddress, address)
+  const name = isVerified ? normalizedName : undefined
+
+  const { data: avatar } = useEnsAvatar({
+    name,
+    chainId: ENS_CHAIN_ID,
+    query: { ...ENS_QUERY_OPTIONS, enabled: !!name },
+  })
+
+  return {
+    name,
+    avatar: avatar ?? undefined,
+    isLoading: isLoadingName || (!!normalizedName && isVerifying),
+  }
+}
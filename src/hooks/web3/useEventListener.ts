@@ -4,9 +4,18 @@
  * Custom hooks for listening to blockchain events and real-time updates
  */
 
-import { useEffect, useCallback, useState } from 'react'
-import { useWatchContractEvent, useBlockNumber } from 'wagmi'
-import type { Address, Abi, Log } from 'viem'
+import { useEffect, useCallback, useRef, useState } from 'react'
+import { useWatchContractEvent, useBlockNumber, usePublicClient } from 'wagmi'
+import { TransactionNotFoundError, TransactionReceiptNotFoundError } from 'viem'
+import type {
+  Address,
+  Abi,
+  Log,
+  Hash,
+  ReplacementReason,
+  Transaction as ViemTransaction,
+  TransactionReceipt as ViemTransactionReceipt,
+} from 'viem'
 import type { ContractEvent } from '../../types/web3'
 
 /**
@@ -161,31 +170,241 @@ export function useBlockPolling(
 }
 
 /**
- * Hook to track pending transactions
+ * Transaction monitor status
+ */
+export type TransactionMonitorStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'failed'
+  | 'dropped'
+  | 'replaced'
+
+/**
+ * Replacement detected for a monitored transaction
+ * Hash, transaction and receipt are unknown when the replacement was mined
+ * before the scanned range
+ */
+export interface TransactionReplacement {
+  hash?: Hash
+  reason: ReplacementReason
+  transaction?: ViemTransaction
+  receipt?: ViemTransactionReceipt
+}
+
+interface UseTransactionMonitorOptions {
+  chainId?: number
+  /** Sender and nonce to check for replacement when the transaction was never seen */
+  from?: Address
+  nonce?: number
+  confirmations?: number
+  dropTimeout?: number
+  onConfirmed?: (receipt: ViemTransactionReceipt) => void
+  onFailed?: (receipt: ViemTransactionReceipt) => void
+  onReplaced?: (replacement: TransactionReplacement) => void
+  onDropped?: () => void
+}
+
+/**
+ * How far back to look for a same-nonce replacement once the original disappears
+ */
+const REPLACEMENT_SCAN_DEPTH = 20n
+
+/**
+ * Default time a transaction may be missing from the mempool before it counts as dropped
+ */
+const DEFAULT_DROP_TIMEOUT = 5 * 60 * 1000
+
+/**
+ * Classify a replacement the same way viem's waitForTransactionReceipt does
+ */
+function getReplacementReason(
+  original: ViemTransaction,
+  replacement: ViemTransaction
+): ReplacementReason {
+  if (
+    replacement.to === original.to &&
+    replacement.value === original.value &&
+    replacement.input === original.input
+  ) {
+    return 'repriced'
+  }
+  if (replacement.from === replacement.to && replacement.value === 0n) {
+    return 'cancelled'
+  }
+  return 'replaced'
+}
+
+/**
+ * Hook to track a transaction through pending, confirmed/failed, dropped or replaced
+ * Checks the transaction on every new block and reports confirmation depth
  * @param txHash - Transaction hash to track
- * @param onConfirmed - Callback when transaction is confirmed
+ * @param options - Chain, required confirmations and status callbacks
  */
 export function useTransactionMonitor(
-  txHash: string | undefined,
-  onConfirmed?: () => void
+  txHash: Hash | undefined,
+  options?: UseTransactionMonitorOptions
 ) {
-  const [status, setStatus] = useState<'pending' | 'confirmed' | 'failed' | null>(
-    null
+  const requiredConfirmations = options?.confirmations ?? 1
+  const dropTimeout = options?.dropTimeout ?? DEFAULT_DROP_TIMEOUT
+
+  const publicClient = usePublicClient({ chainId: options?.chainId })
+  const { data: blockNumber } = useBlockNumber({
+    chainId: options?.chainId,
+    watch: !!txHash,
+  })
+
+  const [status, setStatus] = useState<TransactionMonitorStatus | null>(null)
+  const [receipt, setReceipt] = useState<ViemTransactionReceipt | undefined>()
+  const [replacement, setReplacement] = useState<TransactionReplacement | undefined>()
+
+  // Last pending sighting, used for replacement and drop detection
+  const trackedRef = useRef<{
+    transaction?: ViemTransaction
+    lastSeenAt: number
+    lastSeenBlock?: bigint
+  }>({ lastSeenAt: Date.now() })
+  const isCheckingRef = useRef(false)
+  const hasNotifiedRef = useRef(false)
+
+  // Keep latest callbacks without restarting the monitor
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  // Reset when the tracked hash changes
+  useEffect(() => {
+    trackedRef.current = { lastSeenAt: Date.now() }
+    hasNotifiedRef.current = false
+    setReceipt(undefined)
+    setReplacement(undefined)
+    setStatus(txHash ? 'pending' : null)
+  }, [txHash])
+
+  const check = useCallback(
+    async (currentBlock: bigint) => {
+      if (!txHash || !publicClient) return
+
+      try {
+        const txReceipt = await publicClient.getTransactionReceipt({ hash: txHash })
+        setReceipt(txReceipt)
+        setStatus(txReceipt.status === 'success' ? 'confirmed' : 'failed')
+        return
+      } catch (error) {
+        if (!(error instanceof TransactionReceiptNotFoundError)) return
+      }
+
+      try {
+        const transaction = await publicClient.getTransaction({ hash: txHash })
+        trackedRef.current = {
+          transaction,
+          lastSeenAt: Date.now(),
+          lastSeenBlock: currentBlock,
+        }
+        return
+      } catch (error) {
+        if (!(error instanceof TransactionNotFoundError)) return
+      }
+
+      // Not mined and not in the mempool: replaced if its nonce was used, else maybe dropped
+      const { transaction: original, lastSeenAt, lastSeenBlock } = trackedRef.current
+      const from = original?.from ?? optionsRef.current?.from
+      const originalNonce = original?.nonce ?? optionsRef.current?.nonce
+
+      if (from && originalNonce !== undefined) {
+        const nonce = await publicClient.getTransactionCount({
+          address: from,
+          blockTag: 'latest',
+        })
+
+        if (nonce > originalNonce) {
+          const fromBlock = lastSeenBlock ?? currentBlock - REPLACEMENT_SCAN_DEPTH
+          const lowestBlock = currentBlock - REPLACEMENT_SCAN_DEPTH
+
+          for (
+            let block = currentBlock;
+            block >= (fromBlock > lowestBlock ? fromBlock : lowestBlock);
+            block--
+          ) {
+            const { transactions } = await publicClient.getBlock({
+              blockNumber: block,
+              includeTransactions: true,
+            })
+            const match = transactions.find(
+              (tx) =>
+                tx.from.toLowerCase() === from.toLowerCase() && tx.nonce === originalNonce
+            )
+
+            if (match) {
+              const replacementReceipt = await publicClient.getTransactionReceipt({
+                hash: match.hash,
+              })
+              setReplacement({
+                hash: match.hash,
+                reason: original ? getReplacementReason(original, match) : 'replaced',
+                transaction: match,
+                receipt: replacementReceipt,
+              })
+              setReceipt(replacementReceipt)
+              setStatus('replaced')
+              return
+            }
+          }
+
+          // The nonce was used before the scanned range, so the replacement can't be identified
+          setReplacement({ reason: 'replaced' })
+          setStatus('replaced')
+          return
+        }
+      }
+
+      if (Date.now() - lastSeenAt > dropTimeout) {
+        setStatus('dropped')
+      }
+    },
+    [txHash, publicClient, dropTimeout]
   )
 
+  // Re-check on every new block until the outcome is known
   useEffect(() => {
-    if (!txHash) {
-      setStatus(null)
-      return
-    }
+    if (!txHash || blockNumber === undefined || status !== 'pending') return
+    if (isCheckingRef.current) return
 
-    setStatus('pending')
-    // In a real implementation, you would watch the transaction receipt
-    // This is a simplified example
-  }, [txHash])
+    isCheckingRef.current = true
+    check(blockNumber)
+      .catch((error) => console.error('Failed to check transaction status:', error))
+      .finally(() => {
+        isCheckingRef.current = false
+      })
+  }, [txHash, blockNumber, status, check])
+
+  const confirmations =
+    receipt && blockNumber !== undefined && blockNumber >= receipt.blockNumber
+      ? Number(blockNumber - receipt.blockNumber + 1n)
+      : 0
+  const isFinal =
+    status === 'dropped' ||
+    (status === 'replaced' && !replacement?.receipt) ||
+    ((status === 'confirmed' || status === 'failed' || status === 'replaced') &&
+      confirmations >= requiredConfirmations)
+
+  // Notify once the outcome has the requested depth
+  useEffect(() => {
+    if (!isFinal || hasNotifiedRef.current) return
+    hasNotifiedRef.current = true
+
+    const callbacks = optionsRef.current
+    if (status === 'confirmed' && receipt) callbacks?.onConfirmed?.(receipt)
+    if (status === 'failed' && receipt) callbacks?.onFailed?.(receipt)
+    if (status === 'replaced' && replacement) callbacks?.onReplaced?.(replacement)
+    if (status === 'dropped') callbacks?.onDropped?.()
+  }, [isFinal, status, receipt, replacement])
 
   return {
     status,
+    receipt,
+    replacement,
+    confirmations,
+    requiredConfirmations,
+    isFinal,
   }
 }
 
@@ -0,0 +1,71 @@
+/**
+ * Gas Alerts Hook
+ *
+ * Custom hook that checks base fee alerts on every new block of their chains
+ */
+
+import { useEffect } from 'react'
+import { watchBlocks } from 'wagmi/actions'
+import { toast } from 'sonner@2.0.3'
+import { config } from '../../lib/web3/config'
+import { getChainName } from '../../lib/web3/chains'
+import { evaluateGasAlert } from '../../lib/web3/gasAlerts'
+import { useGasAlertStore } from '../../store/gasAlertStore'
+import { formatGwei } from '../../utils/formatters'
+import { showNotification } from '../../utils/notifications'
+
+/**
+ * Check a chain's alerts against a new block's base fee
+ * Reads the store directly so a burst of blocks sees each update
+ */
+function checkGasAlerts(chainId: number, baseFeePerGas: bigint) {
+  const { alerts, setArmed } = useGasAlertStore.getState()
+
+  for (const alert of alerts) {
+    if (alert.chainId !== chainId) continue
+
+    const action = evaluateGasAlert(alert, baseFeePerGas)
+    if (action === 'rearm') {
+      setArmed(alert.id, true)
+    } else if (action === 'trigger') {
+      setArmed(alert.id, false)
+
+      const title = `Cheap gas on ${getChainName(chainId)}`
+      const body = `Base fee is ${formatGwei(baseFeePerGas)} Gwei, below your ${formatGwei(alert.threshold)} Gwei alert`
+      toast.success(title, { description: body })
+      showNotification(title, body)
+    }
+  }
+}
+
+/**
+ * Hook that watches blocks on every chain with an enabled alert
+ * Mount once near the app root
+ */
+export function useGasAlertMonitor() {
+  const chainIds = useGasAlertStore((state) =>
+    Array.from(
+      new Set(state.alerts.filter((alert) => alert.enabled).map((alert) => alert.chainId))
+    )
+      .sort((a, b) => a - b)
+      .join(',')
+  )
+
+  useEffect(() => {
+    if (!chainIds) return
+
+    const unwatchers = chainIds.split(',').map((id) => {
+      const chainId = Number(id)
+      return watchBlocks(config, {
+        chainId: chainId as (typeof config)['chains'][number]['id'],
+        onBlock: (block) => {
+          // Legacy chains have no base fee to compare
+          if (block.baseFeePerGas != null) checkGasAlerts(chainId, block.baseFeePerGas)
+        },
+        onError: (error) => console.error(`Gas alert block watch failed on ${chainId}:`, error),
+      })
+    })
+
+    return () => unwatchers.forEach((unwatch) => unwatch())
+  }, [chainIds])
+}
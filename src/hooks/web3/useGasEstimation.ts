@@ -4,11 +4,29 @@
  * Custom hooks for gas price estimation and transaction cost calculation
  */
 
-import { useGasPrice, useEstimateGas, useBlock } from 'wagmi'
+import {
+  useGasPrice,
+  useEstimateGas,
+  useEstimateFeesPerGas,
+  useBlock,
+  useChainId,
+  usePublicClient,
+  useAccount,
+} from 'wagmi'
 import { useMemo } from 'react'
-import { formatEther } from 'viem'
-import type { Address } from 'viem'
+import { useQuery } from '@tanstack/react-query'
+import { encodeFunctionData, formatEther } from 'viem'
+import type { Abi, Address, Hex } from 'viem'
 import type { GasEstimation } from '../../types/web3'
+import { getGasOracle, type GasOracle, type GasTier } from '../../lib/web3/gasOracle'
+import { estimateL1Fee, getL2FeeModel, type L1FeeEstimate } from '../../lib/web3/l2Fees'
+import type { TransactionOverrides } from '../../lib/web3/gasSettings'
+import {
+  decodeRevertData,
+  getRevertData,
+  isRevertError,
+  type DecodedRevert,
+} from '../../lib/utils/errors'
 
 /**
  * Hook to get current gas price
@@ -54,17 +72,123 @@ export function useCurrentBlock() {
   }
 }
 
+/**
+ * Price a gas limit at an oracle tier
+ * @param gasLimit - Gas limit
+ * @param oracle - Oracle fees, if loaded
+ * @param tier - Fee tier
+ * @param l1Fee - L1 data fee on rollups
+ * @returns Expected and worst-case cost with the EIP-1559 and L1/L2 breakdown
+ */
+function buildGasEstimation(
+  gasLimit: bigint,
+  oracle: GasOracle | undefined,
+  tier: GasTier,
+  l1Fee?: L1FeeEstimate
+): GasEstimation {
+  const fees = oracle?.tiers[tier]
+  const isEip1559 = oracle?.type === 'eip1559'
+  const price = fees?.gasPrice ?? 0n
+  const maxFeePerGas = isEip1559 ? fees?.maxFeePerGas : undefined
+
+  // Expected cost at the next block's base fee, not the fee cap
+  let l2ExecutionCost = gasLimit * price
+  let l1DataFee: bigint | undefined
+  let maxCost = maxFeePerGas !== undefined ? gasLimit * maxFeePerGas : undefined
+
+  if (l1Fee?.model === 'op-stack') {
+    // Charged in wei on top of L2 gas
+    l1DataFee = l1Fee.l1DataFee
+    if (maxCost !== undefined) maxCost += l1DataFee
+  } else if (l1Fee?.model === 'arbitrum') {
+    // Charged as extra L2 gas already included in the gas limit
+    const l1Gas = l1Fee.l1Gas < gasLimit ? l1Fee.l1Gas : gasLimit
+    l1DataFee = l1Gas * price
+    l2ExecutionCost = (gasLimit - l1Gas) * price
+  }
+
+  const estimatedCost = l2ExecutionCost + (l1DataFee ?? 0n)
+
+  return {
+    gasLimit,
+    gasPrice: price,
+    maxFeePerGas,
+    maxPriorityFeePerGas: isEip1559 ? fees?.maxPriorityFeePerGas : undefined,
+    estimatedCost,
+    estimatedCostFormatted: formatEther(estimatedCost),
+    maxCost,
+    l2ExecutionCost: l1Fee ? l2ExecutionCost : undefined,
+    l1DataFee,
+  }
+}
+
+/**
+ * Hook to estimate the L1 data fee of a transaction on a rollup
+ * @param to - Destination address
+ * @param value - Value to send
+ * @param data - Transaction data
+ * @returns L1 fee estimate, undefined on chains without an L1 data fee
+ */
+export function useL1FeeEstimate(to?: Address, value?: bigint, data?: Hex) {
+  const chainId = useChainId()
+  const { address: account } = useAccount()
+  const publicClient = usePublicClient()
+  const model = getL2FeeModel(chainId)
+
+  const { data: l1Fee, isLoading, error } = useQuery({
+    queryKey: ['l1-fee', chainId, account, to, value?.toString(), data],
+    queryFn: () => estimateL1Fee(publicClient!, chainId, { account, to: to!, data, value }),
+    enabled: !!model && !!to && !!publicClient,
+    refetchInterval: 12000, // L1 fees follow the L1 base fee
+    retry: 1,
+  })
+
+  return {
+    model,
+    l1Fee,
+    isLoading: !!model && !!to && isLoading,
+    error: error as Error | null,
+  }
+}
+
+/**
+ * Hook to get fee suggestions from the fee-history gas oracle
+ * @returns Per-tier fees, base fee trend and block time for the active chain
+ */
+export function useGasOracle() {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['gas-oracle', chainId],
+    queryFn: () => getGasOracle(publicClient!),
+    enabled: !!publicClient,
+    refetchInterval: 12000, // Refetch every 12 seconds
+    retry: 2,
+    retryDelay: 1000,
+  })
+
+  return {
+    oracle: data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  }
+}
+
 /**
  * Hook to estimate gas for a transaction
  * @param to - Destination address
  * @param value - Value to send
  * @param data - Transaction data
+ * @param tier - Fee tier to price the transaction at
  * @returns Gas estimation
  */
 export function useTransactionGasEstimate(
   to?: Address,
   value?: bigint,
-  data?: `0x${string}`
+  data?: `0x${string}`,
+  tier: GasTier = 'standard'
 ): GasEstimation & { isLoading: boolean; error: Error | null } {
   const { data: gasLimit, isLoading: isLoadingGas } = useEstimateGas({
     to,
@@ -75,116 +199,184 @@ export function useTransactionGasEstimate(
     },
   })
 
-  const { gasPrice, isLoading: isLoadingPrice } = useCurrentGasPrice()
-  const { baseFeePerGas } = useCurrentBlock()
-
-  const estimation = useMemo<GasEstimation>(() => {
-    const limit = gasLimit || 21000n
-    const price = gasPrice || 0n
-
-    // Calculate estimated cost
-    const estimatedCost = limit * price
-
-    // Calculate EIP-1559 fees if available
-    const maxFeePerGas = baseFeePerGas
-      ? baseFeePerGas * 2n + price / 10n
-      : undefined
-    const maxPriorityFeePerGas = price / 10n
-
-    return {
-      gasLimit: limit,
-      gasPrice: price,
-      maxFeePerGas,
-      maxPriorityFeePerGas,
-      estimatedCost,
-      estimatedCostFormatted: formatEther(estimatedCost),
-    }
-  }, [gasLimit, gasPrice, baseFeePerGas])
+  const { oracle, isLoading: isLoadingOracle, error } = useGasOracle()
+  const { l1Fee, isLoading: isLoadingL1Fee, error: l1FeeError } = useL1FeeEstimate(to, value, data)
+
+  const estimation = useMemo(() => {
+    const fallbackLimit = l1Fee?.model === 'arbitrum' ? l1Fee.gasEstimate : 21000n
+    return buildGasEstimation(gasLimit || fallbackLimit, oracle, tier, l1Fee)
+  }, [gasLimit, oracle, tier, l1Fee])
 
   return {
     ...estimation,
-    isLoading: isLoadingGas || isLoadingPrice,
-    error: null,
+    isLoading: isLoadingGas || isLoadingOracle || isLoadingL1Fee,
+    error: error ?? l1FeeError,
   }
 }
 
 /**
  * Hook to estimate gas for contract interaction
+ * Encodes the call from the ABI and estimates it from the connected account
  * @param address - Contract address
  * @param abi - Contract ABI
  * @param functionName - Function to call
  * @param args - Function arguments
  * @param value - Value to send
- * @returns Gas estimation
+ * @param tier - Fee tier to price the call at
+ * @returns Gas estimation, with the decoded revert if the call would fail
  */
 export function useContractGasEstimate(
   address?: Address,
-  abi?: unknown[],
+  abi?: Abi,
   functionName?: string,
-  args?: unknown[],
-  value?: bigint
-) {
-  const { data: gasLimit, isLoading } = useEstimateGas({
+  args?: readonly unknown[],
+  value?: bigint,
+  tier: GasTier = 'standard'
+): Partial<GasEstimation> & {
+  isLoading: boolean
+  error: Error | null
+  revert?: DecodedRevert
+} {
+  const { address: account } = useAccount()
+
+  const { data, encodeError } = useMemo<{ data?: Hex; encodeError?: Error }>(() => {
+    if (!abi || !functionName) return {}
+    try {
+      return { data: encodeFunctionData({ abi, functionName, args }) }
+    } catch (error) {
+      return { encodeError: new Error(`Invalid call: ${(error as Error).message}`) }
+    }
+  }, [abi, functionName, args])
+
+  const {
+    data: gasLimit,
+    isLoading: isLoadingGas,
+    error: estimateError,
+  } = useEstimateGas({
+    account,
     to: address,
-    data: address && abi && functionName ? undefined : undefined, // Would need to encode function call
+    data,
     value,
     query: {
-      enabled: !!address && !!functionName,
+      enabled: !!address && !!data,
+      retry: false,
     },
   })
 
-  const { gasPrice } = useCurrentGasPrice()
+  const { oracle, isLoading: isLoadingOracle, error: oracleError } = useGasOracle()
+  const {
+    l1Fee,
+    isLoading: isLoadingL1Fee,
+    error: l1FeeError,
+  } = useL1FeeEstimate(data ? address : undefined, value, data)
+
+  const revert = useMemo(() => {
+    if (!estimateError || !isRevertError(estimateError)) return undefined
+    const revertData = getRevertData(estimateError)
+    return revertData
+      ? decodeRevertData(revertData, abi)
+      : { reason: 'Execution reverted without a reason' }
+  }, [estimateError, abi])
 
-  const estimatedCost = useMemo(() => {
-    if (!gasLimit || !gasPrice) return 0n
-    return gasLimit * gasPrice
-  }, [gasLimit, gasPrice])
+  const estimation = useMemo(
+    () => (gasLimit !== undefined ? buildGasEstimation(gasLimit, oracle, tier, l1Fee) : {}),
+    [gasLimit, oracle, tier, l1Fee]
+  )
+
+  const error =
+    encodeError ??
+    (revert ? new Error(`Execution reverted: ${revert.reason}`) : null) ??
+    (estimateError as Error | null) ??
+    oracleError ??
+    l1FeeError
 
   return {
-    gasLimit,
-    gasPrice,
-    estimatedCost,
-    estimatedCostFormatted: formatEther(estimatedCost),
-    isLoading,
+    ...estimation,
+    isLoading: (!!data && isLoadingGas) || isLoadingOracle || isLoadingL1Fee,
+    error,
+    revert,
   }
 }
 
 /**
  * Hook to get gas price in different speeds
- * @returns Gas prices for slow, standard, and fast
+ * @returns Expected gas prices and full fee suggestions for slow, standard, and fast
  */
 export function useGasPrices() {
-  const { gasPrice, isLoading } = useCurrentGasPrice()
-  const { baseFeePerGas } = useCurrentBlock()
-
-  const prices = useMemo(() => {
-    if (!gasPrice) {
-      return {
-        slow: 0n,
-        standard: 0n,
-        fast: 0n,
-      }
-    }
-
-    // Simple multipliers for different speeds
-    const slow = (gasPrice * 80n) / 100n // 80% of current
-    const standard = gasPrice
-    const fast = (gasPrice * 120n) / 100n // 120% of current
-
-    return {
-      slow,
-      standard,
-      fast,
-      baseFee: baseFeePerGas,
-    }
-  }, [gasPrice, baseFeePerGas])
+  const { oracle, isLoading, error } = useGasOracle()
 
   return {
-    ...prices,
+    slow: oracle?.tiers.slow.gasPrice ?? 0n,
+    standard: oracle?.tiers.standard.gasPrice ?? 0n,
+    fast: oracle?.tiers.fast.gasPrice ?? 0n,
+    tiers: oracle?.tiers,
+    baseFee: oracle?.baseFeePerGas,
+    baseFeeTrend: oracle?.baseFeeTrend,
+    isEip1559: oracle?.type === 'eip1559',
     isLoading,
+    error,
   }
 }
 
+/**
+ * Gas used by a plain native transfer
+ */
+const NATIVE_TRANSFER_GAS = 21000n
+
+/**
+ * Extra headroom on the gas reserved from a native balance, in percent
+ * Covers base fee increases between estimation and inclusion
+ */
+const GAS_RESERVE_BUFFER = 120n
+
+/**
+ * Hook for the part of a native balance that can be sent after reserving the fee
+ * Reserves the gas limit at the fee cap plus any L1 data fee; estimated values get
+ * a buffer, values set in the advanced gas panel are used as is
+ * @param balance - Native balance in wei
+ * @param options - Number of plain transfers to reserve gas for (1 by default),
+ * gas overrides the transfer will be sent with, and whether to reserve at all
+ * @returns Reserved fee and the largest spendable amount
+ */
+export function useSpendableNativeBalance(
+  balance: bigint | undefined,
+  options: { transfers?: number; overrides?: TransactionOverrides; enabled?: boolean } = {}
+) {
+  const enabled = options.enabled ?? true
+  const { address } = useAccount()
+  const { data: fees } = useEstimateFeesPerGas({
+    query: { enabled },
+  })
+  // A zero-value self-transfer stands in for the real one
+  const { l1Fee } = useL1FeeEstimate(enabled ? address : undefined, 0n)
+
+  const overrideFeePerGas = options.overrides?.maxFeePerGas ?? options.overrides?.gasPrice
+  const estimatedFeePerGas = fees?.maxFeePerGas ?? fees?.gasPrice
+  const feePerGas =
+    overrideFeePerGas ??
+    (estimatedFeePerGas !== undefined
+      ? (estimatedFeePerGas * GAS_RESERVE_BUFFER) / 100n
+      : undefined)
+
+  // Arbitrum charges L1 data as extra gas, so a transfer needs more than 21000
+  const gasPerTransfer =
+    options.overrides?.gas ??
+    (l1Fee?.model === 'arbitrum' && l1Fee.gasEstimate > NATIVE_TRANSFER_GAS
+      ? (l1Fee.gasEstimate * GAS_RESERVE_BUFFER) / 100n
+      : NATIVE_TRANSFER_GAS)
+  // OP Stack charges it in wei on top of L2 gas
+  const l1DataFee =
+    l1Fee?.model === 'op-stack' ? (l1Fee.l1DataFee * GAS_RESERVE_BUFFER) / 100n : 0n
+
+  const transfers = BigInt(options.transfers ?? 1)
+  const gasReserve =
+    enabled && feePerGas ? (gasPerTransfer * feePerGas + l1DataFee) * transfers : 0n
+  const maxAmount =
+    balance !== undefined ? (balance > gasReserve ? balance - gasReserve : 0n) : undefined
+
+  return { gasReserve, maxAmount }
+}
+
 /**
  * Calculate transaction cost in USD
  * @param gasLimit - Gas limit
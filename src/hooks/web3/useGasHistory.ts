@@ -0,0 +1,94 @@
+/**
+ * Gas History Hook
+ *
+ * Custom hook for a rolling per-block fee history, seeded from `eth_feeHistory`
+ * and extended as new blocks arrive
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useChainId, usePublicClient } from 'wagmi'
+import { useBlockListener } from './useEventListener'
+import {
+  fetchGasHistory,
+  mergeGasHistory,
+  MAX_GAS_HISTORY_BLOCKS,
+  type GasHistoryPoint,
+} from '../../lib/web3/gasHistory'
+
+/**
+ * Hook for recent base and priority fees on the active chain
+ * @returns Points for the last MAX_GAS_HISTORY_BLOCKS blocks, oldest first
+ */
+export function useGasHistory() {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const [history, setHistory] = useState<GasHistoryPoint[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const latestBlockRef = useRef<bigint>()
+  const isExtendingRef = useRef(false)
+  const clientRef = useRef(publicClient)
+  clientRef.current = publicClient
+
+  // Seed from the fee history whenever the chain changes
+  useEffect(() => {
+    if (!publicClient) return
+    let cancelled = false
+
+    setHistory([])
+    setError(null)
+    setIsLoading(true)
+    latestBlockRef.current = undefined
+
+    fetchGasHistory(publicClient, MAX_GAS_HISTORY_BLOCKS)
+      .then((points) => {
+        if (cancelled) return
+        latestBlockRef.current = points[points.length - 1]?.blockNumber
+        setHistory(points)
+      })
+      .catch((err) => !cancelled && setError(err as Error))
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [publicClient, chainId])
+
+  // Extend with blocks newer than the last one merged
+  // A failed or skipped fetch leaves the range to be picked up on the next block
+  const handleNewBlock = useCallback(
+    (blockNumber: bigint) => {
+      const latest = latestBlockRef.current
+      if (!publicClient || latest === undefined || blockNumber <= latest) return
+      if (isExtendingRef.current) return
+
+      const missing = blockNumber - latest
+      const blockCount = Number(
+        missing > BigInt(MAX_GAS_HISTORY_BLOCKS) ? BigInt(MAX_GAS_HISTORY_BLOCKS) : missing
+      )
+
+      isExtendingRef.current = true
+      fetchGasHistory(publicClient, blockCount, blockNumber)
+        .then((points) => {
+          // Drop results that arrive after switching chains
+          if (clientRef.current !== publicClient) return
+          latestBlockRef.current = blockNumber
+          setHistory((current) => mergeGasHistory(current, points))
+          setError(null)
+        })
+        .catch((err) => clientRef.current === publicClient && setError(err as Error))
+        .finally(() => {
+          isExtendingRef.current = false
+        })
+    },
+    [publicClient]
+  )
+
+  useBlockListener(handleNewBlock)
+
+  return {
+    history,
+    isLoading,
+    error,
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Gas Settings Hook
+ *
+ * Custom hook holding advanced gas panel state for one transaction form
+ */
+
+import { useCallback, useMemo, useState } from 'react'
+import { useAccount, useTransactionCount } from 'wagmi'
+import {
+  DEFAULT_GAS_SETTINGS,
+  getGasSettingsWarnings,
+  resolveGasOverrides,
+  type GasSettings,
+} from '../../lib/web3/gasSettings'
+import { useGasOracle } from './useGasEstimation'
+
+/**
+ * Hook for fee, gas limit and nonce overrides
+ * @param estimatedGas - Estimated gas of the pending transaction, for limit warnings
+ * @returns Panel state, resolved overrides, validation error and warnings
+ */
+export function useGasSettings(estimatedGas?: bigint) {
+  const [settings, setSettings] = useState<GasSettings>(DEFAULT_GAS_SETTINGS)
+  const { oracle } = useGasOracle()
+  const { address } = useAccount()
+
+  const { data: pendingNonce } = useTransactionCount({
+    address,
+    blockTag: 'pending',
+    query: {
+      enabled: !!address && settings.nonce.trim() !== '',
+    },
+  })
+
+  const { overrides, error } = useMemo(
+    () => resolveGasOverrides(settings, oracle),
+    [settings, oracle]
+  )
+
+  const warnings = useMemo(
+    () =>
+      getGasSettingsWarnings(overrides, {
+        baseFeePerGas: oracle?.baseFeePerGas,
+        estimatedGas,
+        pendingNonce,
+      }),
+    [overrides, oracle, estimatedGas, pendingNonce]
+  )
+
+  // A custom nonce only applies to one transaction
+  const clearNonce = useCallback(
+    () => setSettings((current) => ({ ...current, nonce: '' })),
+    []
+  )
+
+  return {
+    settings,
+    setSettings,
+    oracle,
+    overrides,
+    error,
+    warnings,
+    estimatedGas,
+    clearNonce,
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Multi-Send Hook
+ *
+ * Custom hook for paying many recipients in one batch, through EIP-5792
+ * wallet_sendCalls when the wallet supports it or a disperse contract otherwise
+ */
+
+import { useCallback, useState } from 'react'
+import { useAccount, useCapabilities, usePublicClient } from 'wagmi'
+import { sendCalls, waitForCallsStatus } from 'wagmi/actions'
+import { encodeFunctionData, WaitForCallsStatusTimeoutError } from 'viem'
+import type { Abi, Address, Hash } from 'viem'
+import { toast } from 'sonner@2.0.3'
+import { config } from '../../lib/web3/config'
+import { getContractAddress } from '../../lib/constants/contracts'
+import { parseWeb3Error } from '../../lib/utils/errors'
+import { approveWithReset } from '../../lib/web3/approvals'
+import type { MultiSendRow } from '../../lib/web3/multiSend'
+import { DISPERSE_ABI } from '../../contracts/abis/Disperse'
+import { ERC20_ABI } from '../../contracts/abis/ERC20'
+import { useTransactionStore } from '../../store/transactionStore'
+import { useContractWrite } from './useContractWrite'
+import { useTransactionRecorder } from './useTransactionHistory'
+
+/**
+ * How a batch is executed
+ */
+export type MultiSendMethod = 'sendCalls' | 'disperse'
+
+/**
+ * Progress of one recipient row
+ */
+export type MultiSendRowStatus = 'pending' | 'submitted' | 'confirmed' | 'failed'
+
+/**
+ * Outcome of a batch: every transfer confirmed, at least one failed, or
+ * still unconfirmed when we stopped waiting
+ */
+export type MultiSendResult = 'success' | 'failed' | 'pending'
+
+/**
+ * How long to wait for a wallet batch before leaving it as submitted (10 minutes)
+ */
+const CALLS_STATUS_TIMEOUT = 10 * 60 * 1000
+
+/**
+ * Hook for the batch method available to the connected wallet on the active chain
+ * Atomic wallet batches are preferred, then the disperse contract, then
+ * non-atomic wallet batches
+ * @returns Batch method, or undefined when batching is unavailable
+ */
+export function useMultiSendMethod(): {
+  method?: MultiSendMethod
+  disperseAddress?: Address
+  isLoading: boolean
+} {
+  const { chainId } = useAccount()
+  const { data: capabilities, isLoading, isError } = useCapabilities({
+    chainId: chainId as (typeof config)['chains'][number]['id'],
+    query: { enabled: !!chainId, retry: false },
+  })
+
+  const disperseAddress = chainId
+    ? (getContractAddress('DISPERSE', chainId) as Address | undefined)
+    : undefined
+
+  // Wallets without EIP-5792 reject wallet_getCapabilities
+  const supportsSendCalls = !!capabilities && !isError
+  const atomicStatus = capabilities?.atomic?.status
+  const isAtomic = atomicStatus === 'supported' || atomicStatus === 'ready'
+
+  let method: MultiSendMethod | undefined
+  if (supportsSendCalls && isAtomic) {
+    method = 'sendCalls'
+  } else if (disperseAddress) {
+    method = 'disperse'
+  } else if (supportsSendCalls) {
+    method = 'sendCalls'
+  }
+
+  return { method, disperseAddress, isLoading }
+}
+
+/**
+ * Hook for executing a validated multi-send batch
+ * @returns Send function, per-row status keyed by line number and batch state
+ */
+export function useMultiSend() {
+  const { address: owner, chainId } = useAccount()
+  const publicClient = usePublicClient()
+  const { method, disperseAddress, isLoading: isLoadingMethod } = useMultiSendMethod()
+  const { write } = useContractWrite()
+  const { recordTransaction } = useTransactionRecorder()
+  const updateTransaction = useTransactionStore((state) => state.updateTransaction)
+  const [statuses, setStatuses] = useState<Record<number, MultiSendRowStatus>>({})
+  const [isSending, setIsSending] = useState(false)
+
+  const setAll = useCallback((rows: MultiSendRow[], status: MultiSendRowStatus) => {
+    setStatuses(Object.fromEntries(rows.map((row) => [row.line, status])))
+  }, [])
+
+  /**
+   * Send through wallet_sendCalls, one call per row
+   */
+  const sendWithCalls = useCallback(
+    async (rows: MultiSendRow[], asset: 'native' | Address): Promise<MultiSendResult> => {
+      if (!chainId) throw new Error('Wallet not connected')
+
+      const calls = rows.map((row) =>
+        asset === 'native'
+          ? { to: row.recipient!, value: row.value! }
+          : {
+              to: asset,
+              data: encodeFunctionData({
+                abi: ERC20_ABI as Abi,
+                functionName: 'transfer',
+                args: [row.recipient!, row.value!],
+              }),
+            }
+      )
+
+      const { id } = await sendCalls(config, {
+        calls,
+        chainId: chainId as (typeof config)['chains'][number]['id'],
+      })
+      setAll(rows, 'submitted')
+      toast.loading('Batch submitted', { description: 'Waiting for confirmation...', id })
+
+      let result
+      try {
+        result = await waitForCallsStatus(config, { id, timeout: CALLS_STATUS_TIMEOUT })
+      } catch (error) {
+        // Rows stay submitted; the wallet may still land the batch
+        if (error instanceof WaitForCallsStatusTimeoutError) {
+          toast.warning('Batch is still pending', {
+            description: 'Check your wallet for its outcome',
+          })
+          return 'pending'
+        }
+        throw error
+      } finally {
+        toast.dismiss(id)
+      }
+
+      const receipts = result.receipts ?? []
+
+      // Non-atomic wallets return one receipt per call, atomic ones a single receipt
+      const isPerCall = receipts.length === rows.length
+
+      receipts.forEach((receipt, index) => {
+        recordTransaction(receipt.transactionHash, {
+          to: asset !== 'native' ? asset : isPerCall ? rows[index].recipient! : null,
+          value: asset === 'native' && isPerCall ? rows[index].value : 0n,
+          type: 'multiSend',
+        })
+        updateTransaction(receipt.transactionHash, {
+          status: receipt.status === 'success' ? 'success' : 'failed',
+          gasUsed: receipt.gasUsed,
+          blockNumber: receipt.blockNumber,
+        })
+      })
+
+      if (isPerCall) {
+        setStatuses(
+          Object.fromEntries(
+            rows.map((row, index) => [
+              row.line,
+              receipts[index].status === 'success' ? 'confirmed' : 'failed',
+            ])
+          )
+        )
+      } else {
+        setAll(rows, result.status === 'success' ? 'confirmed' : 'failed')
+      }
+
+      return result.status === 'success' ? 'success' : 'failed'
+    },
+    [chainId, setAll, recordTransaction, updateTransaction]
+  )
+
+  /**
+   * Send through the disperse contract, approving it first for tokens
+   */
+  const sendWithDisperse = useCallback(
+    async (rows: MultiSendRow[], asset: 'native' | Address): Promise<MultiSendResult> => {
+      if (!disperseAddress || !publicClient || !owner) throw new Error('Disperse is not available')
+
+      const recipients = rows.map((row) => row.recipient!)
+      const values = rows.map((row) => row.value!)
+      const total = values.reduce((sum, value) => sum + value, 0n)
+      const disperseAbi = DISPERSE_ABI as Abi
+
+      let hash: Hash
+      if (asset === 'native') {
+        hash = await write(disperseAddress, disperseAbi, 'disperseEther', [recipients, values], total)
+      } else {
+        const allowance = (await publicClient.readContract({
+          address: asset,
+          abi: ERC20_ABI as Abi,
+          functionName: 'allowance',
+          args: [owner, disperseAddress],
+        })) as bigint
+
+        if (allowance < total) {
+          const approval = await approveWithReset(
+            publicClient,
+            (amount) => write(asset, ERC20_ABI as Abi, 'approve', [disperseAddress, amount]),
+            { owner, token: asset, spender: disperseAddress, amount: total }
+          )
+          await publicClient.waitForTransactionReceipt({ hash: approval })
+        }
+
+        hash = await write(disperseAddress, disperseAbi, 'disperseToken', [asset, recipients, values])
+      }
+
+      setAll(rows, 'submitted')
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      const success = receipt.status === 'success'
+      setAll(rows, success ? 'confirmed' : 'failed')
+      return success ? 'success' : 'failed'
+    },
+    [disperseAddress, publicClient, owner, write, setAll]
+  )
+
+  /**
+   * Execute a batch
+   * @param rows - Valid rows from validateMultiSend
+   * @param asset - 'native' or the ERC20 token address
+   * @returns Whether every transfer confirmed, one failed, or the batch is still pending
+   */
+  const send = useCallback(
+    async (rows: MultiSendRow[], asset: 'native' | Address) => {
+      if (!method) throw new Error('Batch sending is not available on this network')
+
+      setIsSending(true)
+      setAll(rows, 'pending')
+
+      try {
+        return method === 'sendCalls'
+          ? await sendWithCalls(rows, asset)
+          : await sendWithDisperse(rows, asset)
+      } catch (error) {
+        setStatuses({})
+        // useContractWrite already reports disperse failures
+        if (method === 'sendCalls') toast.error(parseWeb3Error(error))
+        throw error
+      } finally {
+        setIsSending(false)
+      }
+    },
+    [method, setAll, sendWithCalls, sendWithDisperse]
+  )
+
+  return {
+    method,
+    isLoadingMethod,
+    send,
+    statuses,
+    isSending,
+    reset: () => setStatuses({}),
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Batched Read Hook
+ *
+ * Aggregates many contract reads into a single Multicall3 request per chain
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { useReadContracts } from 'wagmi'
+import type { ContractFunctionParameters } from 'viem'
+
+/**
+ * A single read in a batch, identified by a caller-chosen key
+ */
+export interface BatchedRead {
+  key: string
+  contract: ContractFunctionParameters & { chainId?: number }
+}
+
+/**
+ * Result of a single read in a batch
+ */
+export type BatchedReadResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: Error }
+
+/**
+ * Hook to execute a list of contract reads as one Multicall3 aggregate call
+ * Results are keyed, so entries stay stable while the read list grows or shrinks
+ * @param reads - Reads to batch (memoize to avoid refetching on every render)
+ * @param options - Query options
+ * @returns Results by key and query state
+ */
+export function useBatchedReads(
+  reads: BatchedRead[],
+  options?: { enabled?: boolean; refetchInterval?: number }
+) {
+  const contracts = useMemo(() => reads.map((read) => read.contract), [reads])
+
+  const { data, isLoading, isFetching, error, refetch } = useReadContracts({
+    contracts,
+    allowFailure: true,
+    // Never split the aggregate into several eth_calls
+    batchSize: 0,
+    query: {
+      enabled: (options?.enabled ?? true) && reads.length > 0,
+      refetchInterval: options?.refetchInterval,
+    },
+  })
+
+  // Results from the last completed fetch, kept while a changed read list loads
+  const [settled, setSettled] = useState<Record<string, BatchedReadResult>>({})
+
+  useEffect(() => {
+    if (!data || data.length !== reads.length) return
+
+    setSettled((previous) => {
+      const next: Record<string, BatchedReadResult> = {}
+      reads.forEach((read, index) => {
+        next[read.key] = (data[index] as BatchedReadResult | undefined) ?? previous[read.key]
+      })
+      return next
+    })
+  }, [data, reads])
+
+  const results = useMemo(() => {
+    const current: Record<string, BatchedReadResult> = {}
+    reads.forEach((read, index) => {
+      const result =
+        data && data.length === reads.length
+          ? (data[index] as BatchedReadResult | undefined)
+          : settled[read.key]
+      if (result) current[read.key] = result
+    })
+    return current
+  }, [reads, data, settled])
+
+  return {
+    results,
+    isLoading,
+    isFetching,
+    error: error as Error | null,
+    refetch,
+  }
+}
+
+/**
+ * Get a successful result from a batch, or undefined if missing or failed
+ * @param results - Batch results
+ * @param key - Read key
+ */
+export function getBatchedResult<T>(
+  results: Record<string, BatchedReadResult>,
+  key: string
+): T | undefined {
+  const result = results[key]
+  return result?.status === 'success' ? (result.result as T) : undefined
+}
@@ -4,11 +4,13 @@
  * Custom hooks for fetching NFT ownership and metadata
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useAccount, useReadContract } from 'wagmi'
+import { useQueries } from '@tanstack/react-query'
 import type { Address } from 'viem'
 import { ERC721_ABI } from '../../contracts/abis/ERC721'
 import type { NFT, NFTMetadata } from '../../types/web3'
+import { useBatchedReads, getBatchedResult, type BatchedRead } from './useMulticall'
 
 /**
  * Fetch NFT metadata from tokenURI
@@ -126,23 +128,77 @@ export function useNFT(
 
 /**
  * Hook to get multiple NFTs from a collection
+ * Reads ownerOf and tokenURI for every token in one Multicall3 request
  * @param nftAddress - NFT contract address
  * @param tokenIds - Array of token IDs
- * @returns Array of NFTs
+ * @returns Array of NFTs in the order given
  */
 export function useNFTCollection(
   nftAddress: Address | undefined,
   tokenIds: bigint[]
 ) {
-  const nfts = tokenIds.map((tokenId) => useNFT(nftAddress, tokenId))
+  // Depend on the token ID contents, not the array identity
+  const idKey = tokenIds.map((tokenId) => tokenId.toString()).join(',')
+  const ids = useMemo(
+    () => Array.from(new Set(idKey ? idKey.split(',') : [])),
+    [idKey]
+  )
 
-  const isLoading = nfts.some((nft) => nft.isLoading)
-  const hasError = nfts.some((nft) => nft.error)
+  const reads = useMemo<BatchedRead[]>(
+    () =>
+      nftAddress
+        ? ids.flatMap((id) =>
+            (['ownerOf', 'tokenURI'] as const).map((functionName) => ({
+              key: `${id}:${functionName}`,
+              contract: {
+                address: nftAddress,
+                abi: ERC721_ABI,
+                functionName,
+                args: [BigInt(id)],
+              } as BatchedRead['contract'],
+            }))
+          )
+        : [],
+    [nftAddress, ids]
+  )
+
+  const { results, isLoading, refetch } = useBatchedReads(reads, {
+    enabled: !!nftAddress,
+  })
+
+  // Metadata is fetched off-chain, once per distinct tokenURI
+  const metadataQueries = useQueries({
+    queries: ids.map((id) => {
+      const tokenURI = getBatchedResult<string>(results, `${id}:tokenURI`)
+      return {
+        queryKey: ['nft-metadata', tokenURI],
+        queryFn: () => fetchMetadata(tokenURI!),
+        enabled: !!tokenURI,
+        staleTime: Infinity,
+      }
+    }),
+  })
+
+  const nfts = ids.map((id, index) => {
+    const ownerResult = results[`${id}:ownerOf`]
+    const metadataQuery = metadataQueries[index]
+
+    return {
+      tokenId: BigInt(id),
+      contract: nftAddress || ('0x0' as Address),
+      owner: getBatchedResult<Address>(results, `${id}:ownerOf`) || ('0x0' as Address),
+      metadata: metadataQuery?.data ?? null,
+      tokenURI: getBatchedResult<string>(results, `${id}:tokenURI`) || '',
+      isLoading: !ownerResult || !!metadataQuery?.isLoading,
+      error: ownerResult?.status === 'failure' ? ownerResult.error : null,
+      refetch,
+    }
+  })
 
   return {
     nfts,
-    isLoading,
-    hasError,
+    isLoading: isLoading || nfts.some((nft) => nft.isLoading),
+    hasError: nfts.some((nft) => nft.error),
   }
 }
 
@@ -0,0 +1,56 @@
+/**
+ * Payment Request Hooks
+ *
+ * Custom hooks for receiving EIP-681 payment requests from links and paste
+ */
+
+import { useCallback, useEffect } from 'react'
+import { toast } from 'sonner@2.0.3'
+import {
+  PAYMENT_REQUEST_PARAM,
+  parsePaymentUri,
+  type PaymentRequest,
+} from '../../lib/web3/paymentRequests'
+import { usePaymentRequestStore } from '../../store/paymentRequestStore'
+
+/**
+ * Hook for opening a payment request link
+ * @returns Function that parses a URI and queues it for the transfer form
+ */
+export function useOpenPaymentRequest() {
+  const setRequest = usePaymentRequestStore((state) => state.setRequest)
+
+  return useCallback(
+    (uri: string): PaymentRequest | undefined => {
+      try {
+        const request = parsePaymentUri(uri)
+        setRequest(request)
+        return request
+      } catch (error) {
+        toast.error('Invalid payment request', { description: (error as Error).message })
+        return undefined
+      }
+    },
+    [setRequest]
+  )
+}
+
+/**
+ * Hook that picks up a payment request from the `pay` URL query parameter
+ * The parameter is removed once read so a reload does not apply it again
+ */
+export function usePaymentRequestFromUrl() {
+  const openPaymentRequest = useOpenPaymentRequest()
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+
+    const url = new URL(window.location.href)
+    const uri = url.searchParams.get(PAYMENT_REQUEST_PARAM)
+    if (!uri) return
+
+    url.searchParams.delete(PAYMENT_REQUEST_PARAM)
+    window.history.replaceState(window.history.state, '', url)
+    openPaymentRequest(uri)
+  }, [openPaymentRequest])
+}
@@ -0,0 +1,267 @@
+/**
+ * Cross-Chain Portfolio Hook
+ *
+ * Custom hook for reading balances on every supported chain without switching the wallet
+ */
+
+import { useAccount } from 'wagmi'
+import { getPublicClient } from 'wagmi/actions'
+import { useQueries } from '@tanstack/react-query'
+import { formatUnits } from 'viem'
+import type { Address, ContractFunctionParameters } from 'viem'
+import { config, SUPPORTED_CHAINS } from '../../lib/web3/config'
+import { isTestnet } from '../../lib/web3/chains'
+import {
+  chainlinkPriceProvider,
+  getPriceKey,
+  toUsdValue,
+  type PriceAsset,
+  type PriceProvider,
+  type PriceQuote,
+} from '../../lib/web3/prices'
+import { getTokenKey } from '../../lib/web3/tokenLists'
+import { getDefaultTokenSymbol } from '../../lib/constants/tokenList'
+import { ERC20_ABI } from '../../contracts/abis/ERC20'
+import { useRegistryTokens } from './useTokenList'
+import type { TokenInfo } from '../../types/web3'
+
+/**
+ * How often balances are refreshed (1 minute)
+ */
+const PORTFOLIO_REFRESH_INTERVAL = 60_000
+
+/**
+ * Balance of one asset on one chain
+ */
+export interface PortfolioHolding {
+  chainId: number
+  asset: PriceAsset
+  symbol: string
+  name: string
+  decimals: number
+  balance: bigint
+  usdValue?: number
+  quote?: PriceQuote
+}
+
+/**
+ * Holdings of the same asset across chains
+ * Only native currencies and bundled tokens merge across mainnets; other tokens
+ * and all testnet holdings stay on their own chain
+ */
+export interface PortfolioAssetGroup {
+  key: string
+  symbol: string
+  /** Set when the group is a single chain's asset */
+  chainId?: number
+  isTestnet: boolean
+  holdings: PortfolioHolding[]
+  totalAmount: number
+  totalUsdValue?: number
+}
+
+/**
+ * Load state of a single chain
+ */
+export interface ChainPortfolioStatus {
+  chainId: number
+  name: string
+  status: 'loading' | 'success' | 'error'
+  error?: Error
+  refetch: () => void
+}
+
+/**
+ * Read native and token balances plus prices for one chain
+ * Price failures leave holdings unpriced instead of failing the chain
+ */
+async function fetchChainHoldings(
+  chainId: number,
+  address: Address,
+  tokens: TokenInfo[],
+  provider: PriceProvider
+): Promise<PortfolioHolding[]> {
+  const client = getPublicClient(config, {
+    chainId: chainId as (typeof config)['chains'][number]['id'],
+  })
+  if (!client) throw new Error(`No client for chain ${chainId}`)
+
+  const chain = SUPPORTED_CHAINS.find((c) => c.id === chainId)!
+
+  const [nativeBalance, tokenResults] = await Promise.all([
+    client.getBalance({ address }),
+    tokens.length > 0
+      ? client.multicall({
+          allowFailure: true,
+          contracts: tokens.map(
+            (token) =>
+              ({
+                address: token.address,
+                abi: ERC20_ABI,
+                functionName: 'balanceOf',
+                args: [address],
+              }) as ContractFunctionParameters
+          ),
+        })
+      : Promise.resolve([]),
+  ])
+
+  const holdings: PortfolioHolding[] = [
+    {
+      chainId,
+      asset: 'native',
+      symbol: chain.nativeCurrency.symbol,
+      name: chain.nativeCurrency.name,
+      decimals: chain.nativeCurrency.decimals,
+      balance: nativeBalance,
+    },
+  ]
+
+  tokens.forEach((token, index) => {
+    const result = tokenResults[index]
+    if (result?.status !== 'success') return
+
+    const balance = result.result as bigint
+    if (balance === 0n) return
+
+    holdings.push({
+      chainId,
+      asset: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      balance,
+    })
+  })
+
+  let prices: Record<string, PriceQuote> = {}
+  try {
+    prices = await provider.getPrices(chainId, holdings.map((holding) => holding.asset))
+  } catch (error) {
+    console.error(`Price lookup failed on chain ${chainId}:`, error)
+  }
+
+  return holdings.map((holding) => {
+    const quote = prices[getPriceKey(holding.asset)]
+    return {
+      ...holding,
+      quote,
+      usdValue: toUsdValue(holding.balance, holding.decimals, quote),
+    }
+  })
+}
+
+/**
+ * Get the cross-chain group of a holding
+ * Symbols are not trusted: custom and unlisted tokens can reuse any symbol,
+ * so only native currencies and bundled token addresses are merged
+ * @returns Group key, or undefined if the holding stays on its own chain
+ */
+function getCanonicalKey(holding: PortfolioHolding): string | undefined {
+  if (isTestnet(holding.chainId)) return undefined
+  if (holding.asset === 'native') return `native:${holding.symbol.toUpperCase()}`
+
+  const symbol = getDefaultTokenSymbol(holding.chainId, holding.asset)
+  return symbol ? `token:${symbol}` : undefined
+}
+
+/**
+ * Group holdings by asset across chains and total them
+ */
+function groupHoldings(holdings: PortfolioHolding[]) {
+  const byKey = new Map<string, PortfolioHolding[]>()
+
+  for (const holding of holdings) {
+    if (holding.balance === 0n) continue
+    const key = getCanonicalKey(holding) ?? getTokenKey(holding.chainId, holding.asset)
+    byKey.set(key, [...(byKey.get(key) ?? []), holding])
+  }
+
+  const groups: PortfolioAssetGroup[] = Array.from(byKey.entries()).map(
+    ([key, grouped]) => {
+      const priced = grouped.filter((holding) => holding.usdValue !== undefined)
+      return {
+        key,
+        symbol: grouped[0].symbol.toUpperCase(),
+        chainId: getCanonicalKey(grouped[0]) ? undefined : grouped[0].chainId,
+        isTestnet: isTestnet(grouped[0].chainId),
+        holdings: grouped,
+        totalAmount: grouped.reduce(
+          (sum, holding) => sum + Number(formatUnits(holding.balance, holding.decimals)),
+          0
+        ),
+        totalUsdValue:
+          priced.length > 0
+            ? priced.reduce((sum, holding) => sum + holding.usdValue!, 0)
+            : undefined,
+      }
+    }
+  )
+
+  // Largest positions first, unpriced assets next, testnets last
+  groups.sort(
+    (a, b) =>
+      Number(a.isTestnet) - Number(b.isTestnet) ||
+      (b.totalUsdValue ?? -1) - (a.totalUsdValue ?? -1)
+  )
+
+  return {
+    groups,
+    totalUsdValue: groups.reduce((sum, group) => sum + (group.totalUsdValue ?? 0), 0),
+  }
+}
+
+/**
+ * Hook for balances across every chain in SUPPORTED_CHAINS
+ * Each chain is queried independently, so one failing RPC only hides that chain
+ * @param options - Address (defaults to connected wallet) and price provider
+ * @returns Holdings grouped by asset, totals and per-chain status
+ */
+export function usePortfolio(options: { address?: Address; provider?: PriceProvider } = {}) {
+  const { address: accountAddress } = useAccount()
+  const address = options.address ?? accountAddress
+  const provider = options.provider ?? chainlinkPriceProvider
+  const { tokens } = useRegistryTokens()
+
+  const queries = useQueries({
+    queries: SUPPORTED_CHAINS.map((chain) => {
+      const chainTokens = tokens.filter((token) => token.chainId === chain.id)
+      return {
+        queryKey: [
+          'portfolio',
+          chain.id,
+          address,
+          provider.name,
+          chainTokens.map((token) => token.address.toLowerCase()).join(','),
+        ],
+        queryFn: () => fetchChainHoldings(chain.id, address!, chainTokens, provider),
+        enabled: !!address,
+        staleTime: PORTFOLIO_REFRESH_INTERVAL,
+        refetchInterval: PORTFOLIO_REFRESH_INTERVAL,
+        retry: 1,
+      }
+    }),
+  })
+
+  const chainStatuses: ChainPortfolioStatus[] = SUPPORTED_CHAINS.map((chain, index) => {
+    const query = queries[index]
+    return {
+      chainId: chain.id,
+      name: chain.name,
+      status: query.isError ? 'error' : query.isSuccess ? 'success' : 'loading',
+      error: (query.error as Error | null) ?? undefined,
+      refetch: () => query.refetch(),
+    }
+  })
+
+  const { groups, totalUsdValue } = groupHoldings(queries.flatMap((query) => query.data ?? []))
+
+  return {
+    groups,
+    totalUsdValue,
+    chains: chainStatuses,
+    isLoading: chainStatuses.some((chain) => chain.status === 'loading'),
+    hasErrors: chainStatuses.some((chain) => chain.status === 'error'),
+    refetch: () => queries.forEach((query) => query.refetch()),
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Price Hooks
+ *
+ * Custom hooks for USD prices of native and ERC20 balances
+ */
+
+import { useMemo, useCallback } from 'react'
+import { useAccount } from 'wagmi'
+import { useQuery } from '@tanstack/react-query'
+import {
+  chainlinkPriceProvider,
+  getPriceKey,
+  toUsdValue,
+  type PriceAsset,
+  type PriceProvider,
+  type PriceQuote,
+} from '../../lib/web3/prices'
+
+/**
+ * How often prices are refreshed (1 minute)
+ */
+const PRICE_REFRESH_INTERVAL = 60_000
+
+/**
+ * Hook to get USD prices for a set of assets
+ * @param assets - Native currency and/or token addresses
+ * @param options - Chain (defaults to connected chain) and provider (defaults to Chainlink)
+ * @returns Quotes keyed by lowercase asset and a USD conversion helper
+ */
+export function usePrices(
+  assets: PriceAsset[],
+  options: { chainId?: number; provider?: PriceProvider } = {}
+) {
+  const { chainId: accountChainId } = useAccount()
+  const chainId = options.chainId ?? accountChainId
+  const provider = options.provider ?? chainlinkPriceProvider
+
+  // Depend on the asset set, not the array identity
+  const assetKey = Array.from(new Set(assets.map(getPriceKey))).sort().join(',')
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['prices', provider.name, chainId, assetKey],
+    queryFn: () => provider.getPrices(chainId!, assetKey.split(',') as PriceAsset[]),
+    enabled: !!chainId && assetKey.length > 0,
+    staleTime: PRICE_REFRESH_INTERVAL,
+    refetchInterval: PRICE_REFRESH_INTERVAL,
+    retry: 1,
+  })
+
+  const prices = useMemo<Record<string, PriceQuote>>(() => data ?? {}, [data])
+
+  /**
+   * Look up the quote for an asset
+   */
+  const getQuote = useCallback(
+    (asset: PriceAsset): PriceQuote | undefined => prices[getPriceKey(asset)],
+    [prices]
+  )
+
+  /**
+   * Convert an amount of an asset to USD
+   */
+  const getUsdValue = useCallback(
+    (asset: PriceAsset, amount: bigint, decimals: number) =>
+      toUsdValue(amount, decimals, prices[getPriceKey(asset)]),
+    [prices]
+  )
+
+  return {
+    prices,
+    getQuote,
+    getUsdValue,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get the USD price of the chain's native currency
+ * @param chainId - Optional chain ID (defaults to connected chain)
+ * @returns Native currency quote
+ */
+export function useNativePrice(chainId?: number) {
+  const { getQuote, isLoading, error } = usePrices(['native'], { chainId })
+
+  return {
+    quote: getQuote('native'),
+    isLoading,
+    error,
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Typed Data Signing Hook
+ *
+ * Custom hook for EIP-712 signature requests with a review step and signature verification
+ */
+
+import { useState, useCallback, useRef, useMemo } from 'react'
+import {
+  useAccount,
+  useBytecode,
+  usePublicClient,
+  useSignTypedData as useWagmiSignTypedData,
+} from 'wagmi'
+import { isAddress, isAddressEqual, recoverTypedDataAddress, zeroAddress } from 'viem'
+import { verifyTypedData } from 'viem/actions'
+import type { Address, Hex, TypedDataDefinition } from 'viem'
+import { toast } from 'sonner@2.0.3'
+import { parseWeb3Error, Web3Error, Web3ErrorType } from '../../lib/utils/errors'
+import { getChainName, isSupportedChain } from '../../lib/web3/chains'
+import type { TypedData } from '../../types/web3'
+
+/**
+ * Completed typed data signature
+ * The recovered signer is only set for EOA-style signatures; isValid also covers
+ * smart accounts (ERC-1271) and undeployed ones (ERC-6492)
+ */
+export interface SignedTypedData {
+  typedData: TypedData
+  signature: Hex
+  signer?: Address
+  isValid: boolean
+}
+
+/**
+ * Warning shown in the signature review
+ */
+export interface TypedDataWarning {
+  severity: 'warning' | 'danger'
+  message: string
+}
+
+/**
+ * viem definition for a payload whose types are only known at runtime
+ */
+type RuntimeTypedDataDefinition = TypedDataDefinition<Record<string, unknown>, string>
+
+/**
+ * Convert our TypedData shape into viem's definition
+ */
+function toTypedDataDefinition(typedData: TypedData): RuntimeTypedDataDefinition {
+  return {
+    domain: typedData.domain,
+    types: typedData.types,
+    primaryType: typedData.primaryType,
+    message: typedData.message,
+  }
+}
+
+/**
+ * Hook to sign EIP-712 typed data after the user reviews it
+ * Call requestSignature to open the review, then confirm or reject it
+ * @returns Request state and review actions
+ */
+export function useSignTypedData() {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { signTypedDataAsync, isPending: isSigning } = useWagmiSignTypedData()
+
+  const [request, setRequest] = useState<TypedData | undefined>()
+  const [result, setResult] = useState<SignedTypedData | undefined>()
+  const pendingRef = useRef<{
+    resolve: (signed: SignedTypedData) => void
+    reject: (error: Error) => void
+  }>()
+
+  /**
+   * Open the review for a typed data payload
+   * @param typedData - EIP-712 payload to sign
+   * @returns Promise resolving once the user signs, rejecting if they decline
+   */
+  const requestSignature = useCallback((typedData: TypedData) => {
+    return new Promise<SignedTypedData>((resolve, reject) => {
+      pendingRef.current?.reject(
+        new Web3Error(Web3ErrorType.USER_REJECTED, 'Signature request was replaced')
+      )
+      pendingRef.current = { resolve, reject }
+      setResult(undefined)
+      setRequest(typedData)
+    })
+  }, [])
+
+  /**
+   * Sign the reviewed payload and verify it against the connected account
+   */
+  const confirm = useCallback(async () => {
+    if (!request) return
+
+    const pending = pendingRef.current
+    pendingRef.current = undefined
+
+    if (!address || !publicClient) {
+      setRequest(undefined)
+      pending?.reject(new Error('Wallet not connected'))
+      return
+    }
+
+    try {
+      const definition = toTypedDataDefinition(request)
+      const signature = await signTypedDataAsync(definition)
+      // Smart account signatures are not 65 bytes and cannot be recovered
+      const signer = await recoverTypedDataAddress({ ...definition, signature }).catch(
+        () => undefined
+      )
+      // Checks the EOA signer or asks the account contract (ERC-1271/6492)
+      const isValid = await verifyTypedData(publicClient, {
+        ...definition,
+        address,
+        signature,
+      }).catch(() => false)
+      const signed: SignedTypedData = {
+        typedData: request,
+        signature,
+        signer,
+        isValid,
+      }
+
+      setResult(signed)
+      setRequest(undefined)
+
+      if (signed.isValid) {
+        toast.success('Message signed')
+      } else {
+        toast.error('Signature Mismatch', {
+          description: 'The signature does not verify against the connected account',
+        })
+      }
+      pending?.resolve(signed)
+    } catch (error) {
+      setRequest(undefined)
+      toast.error('Signing Failed', {
+        description: parseWeb3Error(error),
+      })
+      pending?.reject(error as Error)
+    }
+  }, [request, address, publicClient, signTypedDataAsync])
+
+  /**
+   * Decline the request without prompting the wallet
+   */
+  const reject = useCallback(() => {
+    pendingRef.current?.reject(
+      new Web3Error(Web3ErrorType.USER_REJECTED, 'Signature request was rejected by user')
+    )
+    pendingRef.current = undefined
+    setRequest(undefined)
+  }, [])
+
+  return {
+    requestSignature,
+    request,
+    confirm,
+    reject,
+    result,
+    isSigning,
+  }
+}
+
+/**
+ * Hook to check a typed data domain before signing
+ * Flags chain mismatches and suspicious verifying contracts
+ * @param typedData - Payload under review
+ * @returns Warnings, most severe first
+ */
+export function useTypedDataWarnings(typedData: TypedData | undefined): TypedDataWarning[] {
+  const { chainId } = useAccount()
+  const domain = typedData?.domain
+  const domainChainId = domain?.chainId !== undefined ? Number(domain.chainId) : undefined
+  const verifyingContract = domain?.verifyingContract
+  const hasValidContract =
+    !!verifyingContract && isAddress(verifyingContract, { strict: false })
+
+  // Look the contract up on the chain the domain targets
+  const { data: bytecode, isSuccess: hasCheckedCode } = useBytecode({
+    address: verifyingContract,
+    chainId: domainChainId,
+    query: {
+      enabled:
+        hasValidContract &&
+        domainChainId !== undefined &&
+        isSupportedChain(domainChainId) &&
+        !isAddressEqual(verifyingContract!, zeroAddress),
+    },
+  })
+
+  return useMemo(() => {
+    if (!domain) return []
+
+    const warnings: TypedDataWarning[] = []
+
+    if (domainChainId === undefined) {
+      warnings.push({
+        severity: 'warning',
+        message: 'Domain has no chain ID, so this signature could be replayed on other networks',
+      })
+    } else if (chainId !== undefined && domainChainId !== chainId) {
+      warnings.push({
+        severity: 'danger',
+        message: `Domain is for ${getChainName(domainChainId)} (chain ${domainChainId}) but your wallet is on ${getChainName(chainId)}`,
+      })
+    }
+
+    if (!verifyingContract) {
+      warnings.push({
+        severity: 'warning',
+        message: 'Domain has no verifying contract',
+      })
+    } else if (!hasValidContract) {
+      warnings.push({
+        severity: 'danger',
+        message: 'Verifying contract is not a valid address',
+      })
+    } else if (isAddressEqual(verifyingContract, zeroAddress)) {
+      warnings.push({
+        severity: 'danger',
+        message: 'Verifying contract is the zero address',
+      })
+    } else if (hasCheckedCode && !bytecode) {
+      warnings.push({
+        severity: 'danger',
+        message: 'Verifying contract has no code on the target chain',
+      })
+    }
+
+    return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'danger' ? -1 : 1))
+  }, [domain, domainChainId, chainId, verifyingContract, hasValidContract, bytecode, hasCheckedCode])
+}
@@ -0,0 +1,128 @@
+/**
+ * Sign-In With Ethereum Hook
+ *
+ * Custom hook for proving wallet ownership with an EIP-4361 session
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import { useAccount, useSignMessage } from 'wagmi'
+import { isAddressEqual } from 'viem'
+import { toast } from 'sonner@2.0.3'
+import { useSessionStore } from '../../store/sessionStore'
+import {
+  buildSiweMessage,
+  localSiweVerifier,
+  SIWE_SESSION_DURATION,
+  type SiweVerifier,
+} from '../../lib/web3/siwe'
+import { parseWeb3Error, Web3Error, Web3ErrorType } from '../../lib/utils/errors'
+import type { SiweSession } from '../../types/web3'
+
+/**
+ * Check whether a session is still valid for an account
+ * @param session - Stored session
+ * @param address - Connected address
+ * @returns True if the session belongs to the address and has not expired
+ */
+export function isSessionValid(session: SiweSession | undefined, address: string | undefined): boolean {
+  if (!session || !address) return false
+  return isAddressEqual(session.address, address as SiweSession['address']) && session.expiresAt > Date.now()
+}
+
+/**
+ * Hook for Sign-In With Ethereum
+ * @param verifier - Verifier to use (defaults to the in-browser verifier)
+ * @returns Session state and sign-in functions
+ */
+export function useSiwe(verifier: SiweVerifier = localSiweVerifier) {
+  const { address, chainId } = useAccount()
+  const { signMessageAsync } = useSignMessage()
+  const { session, setSession, clearSession } = useSessionStore()
+  const [isSigningIn, setIsSigningIn] = useState(false)
+
+  const isAuthenticated = isSessionValid(session, address)
+
+  // Drop the session once it expires
+  useEffect(() => {
+    if (!session) return
+
+    const remaining = session.expiresAt - Date.now()
+    if (remaining <= 0) {
+      clearSession()
+      return
+    }
+
+    const timeout = setTimeout(clearSession, remaining)
+    return () => clearTimeout(timeout)
+  }, [session, clearSession])
+
+  /**
+   * Sign and verify an EIP-4361 message for the connected account
+   */
+  const signIn = useCallback(async () => {
+    if (!address || !chainId) {
+      throw new Web3Error(Web3ErrorType.UNKNOWN_ERROR, 'Connect a wallet before signing in')
+    }
+
+    setIsSigningIn(true)
+    try {
+      const nonce = await verifier.getNonce(address)
+      const issuedAt = new Date()
+      const expiresAt = new Date(issuedAt.getTime() + SIWE_SESSION_DURATION)
+      const message = buildSiweMessage({
+        address,
+        chainId,
+        nonce,
+        issuedAt,
+        expirationTime: expiresAt,
+      })
+
+      const signature = await signMessageAsync({ message })
+      const isValid = await verifier.verify({ message, signature })
+      if (!isValid) {
+        throw new Web3Error(Web3ErrorType.UNKNOWN_ERROR, 'Sign-in signature could not be verified')
+      }
+
+      const newSession: SiweSession = {
+        address,
+        chainId,
+        nonce,
+        message,
+        signature,
+        issuedAt: issuedAt.getTime(),
+        expiresAt: expiresAt.getTime(),
+      }
+      setSession(newSession)
+      toast.success('Signed in')
+
+      return newSession
+    } catch (error) {
+      toast.error('Sign-in Failed', {
+        description: parseWeb3Error(error),
+      })
+      throw error
+    } finally {
+      setIsSigningIn(false)
+    }
+  }, [address, chainId, verifier, signMessageAsync, setSession])
+
+  /**
+   * End the session locally and with the verifier
+   */
+  const signOut = useCallback(async () => {
+    clearSession()
+    try {
+      await verifier.signOut?.()
+    } catch (error) {
+      console.error('Verifier sign-out failed:', error)
+    }
+  }, [verifier, clearSession])
+
+  return {
+    session: isAuthenticated ? session : undefined,
+    isAuthenticated,
+    isSigningIn,
+    signIn,
+    signOut,
+  }
+}
@@ -4,12 +4,13 @@
  * Custom hook for fetching native and ERC20 token balances
  */
 
-import { useAccount, useBalance, useReadContract } from 'wagmi'
+import { useAccount, useBalance, useBytecode, useReadContract } from 'wagmi'
 import { useMemo } from 'react'
 import { formatUnits } from 'viem'
 import type { Address } from 'viem'
 import { ERC20_ABI } from '../../contracts/abis/ERC20'
 import type { TokenBalance } from '../../types/web3'
+import { useBatchedReads, getBatchedResult, type BatchedRead } from './useMulticall'
 
 /**
  * Hook to get native token balance (ETH, MATIC, etc.)
@@ -43,31 +44,54 @@ export function useNativeBalance(address?: Address) {
 /**
  * Hook to get ERC20 token information
  * @param tokenAddress - Token contract address
- * @returns Token information
+ * @returns Token information and whether the address looks like an ERC20 contract
  */
-export function useTokenInfo(tokenAddress: Address) {
-  const { data: name } = useReadContract({
+export function useTokenInfo(tokenAddress: Address | undefined) {
+  const enabled = !!tokenAddress
+
+  const { data: bytecode, isLoading: isLoadingCode } = useBytecode({
+    address: tokenAddress,
+    query: { enabled },
+  })
+
+  const { data: name, isLoading: isLoadingName, isError: nameError } = useReadContract({
     address: tokenAddress,
     abi: ERC20_ABI,
     functionName: 'name',
+    query: { enabled },
   })
 
-  const { data: symbol } = useReadContract({
+  const { data: symbol, isLoading: isLoadingSymbol, isError: symbolError } = useReadContract({
     address: tokenAddress,
     abi: ERC20_ABI,
     functionName: 'symbol',
+    query: { enabled },
   })
 
-  const { data: decimals } = useReadContract({
+  const { data: decimals, isLoading: isLoadingDecimals, isError: decimalsError } = useReadContract({
     address: tokenAddress,
     abi: ERC20_ABI,
     functionName: 'decimals',
+    query: { enabled },
   })
 
+  const isLoading = enabled && (isLoadingCode || isLoadingName || isLoadingSymbol || isLoadingDecimals)
+  const isContract = !!bytecode && bytecode !== '0x'
+  const isERC20 =
+    isContract &&
+    !nameError &&
+    !symbolError &&
+    !decimalsError &&
+    typeof symbol === 'string' &&
+    typeof decimals === 'number'
+
   return {
     name: name as string | undefined,
     symbol: symbol as string | undefined,
     decimals: decimals as number | undefined,
+    isLoading,
+    isContract,
+    isERC20,
   }
 }
 
@@ -84,7 +108,7 @@ export function useERC20Balance(
   const { address: accountAddress } = useAccount()
   const targetAddress = ownerAddress || accountAddress
 
-  const tokenInfo = useTokenInfo(tokenAddress!)
+  const tokenInfo = useTokenInfo(tokenAddress)
 
   const { data: balance, isLoading, error, refetch } = useReadContract({
     address: tokenAddress,
@@ -118,27 +142,84 @@ export function useERC20Balance(
   }
 }
 
+/**
+ * ERC20 fields read for every token in a batch
+ */
+const TOKEN_FIELDS = ['name', 'symbol', 'decimals', 'balanceOf'] as const
+
 /**
  * Hook to get multiple ERC20 token balances
+ * Reads name, symbol, decimals and balanceOf for every token in one Multicall3 request
  * @param tokenAddresses - Array of token addresses
  * @param ownerAddress - Optional owner address
- * @returns Array of token balances
+ * @returns Array of token balances in the order given
  */
 export function useMultipleTokenBalances(
   tokenAddresses: Address[],
   ownerAddress?: Address
 ) {
-  const balances = tokenAddresses.map((address) =>
-    useERC20Balance(address, ownerAddress)
+  const { address: accountAddress } = useAccount()
+  const targetAddress = ownerAddress || accountAddress
+
+  // Depend on the address list contents, not the array identity
+  const tokenKey = tokenAddresses.map((address) => address.toLowerCase()).join(',')
+  const tokens = useMemo(
+    () => Array.from(new Set(tokenKey ? tokenKey.split(',') : [])) as Address[],
+    [tokenKey]
   )
 
-  const isLoading = balances.some((b) => b.isLoading)
-  const hasError = balances.some((b) => b.error)
+  const reads = useMemo<BatchedRead[]>(
+    () =>
+      tokens.flatMap((token) =>
+        TOKEN_FIELDS.map((field) => ({
+          key: `${token}:${field}`,
+          contract: {
+            address: token,
+            abi: ERC20_ABI,
+            functionName: field,
+            args: field === 'balanceOf' ? [targetAddress] : undefined,
+          } as BatchedRead['contract'],
+        }))
+      ),
+    [tokens, targetAddress]
+  )
+
+  const { results, isLoading, error, refetch } = useBatchedReads(reads, {
+    enabled: !!targetAddress,
+  })
+
+  const balancesByToken = useMemo(() => {
+    const byToken = new Map<string, TokenBalance & { isLoading: boolean; error: Error | null }>()
+
+    for (const token of tokens) {
+      const balanceResult = results[`${token}:balanceOf`]
+      const balanceValue = getBatchedResult<bigint>(results, `${token}:balanceOf`) ?? 0n
+      const decimals = getBatchedResult<number>(results, `${token}:decimals`) ?? 18
+
+      byToken.set(token, {
+        address: token,
+        symbol: getBatchedResult<string>(results, `${token}:symbol`) ?? 'TOKEN',
+        name: getBatchedResult<string>(results, `${token}:name`) ?? 'Unknown Token',
+        decimals,
+        balance: balanceValue,
+        formattedBalance: formatUnits(balanceValue, decimals),
+        isLoading: !balanceResult,
+        error: balanceResult?.status === 'failure' ? balanceResult.error : null,
+      })
+    }
+
+    return byToken
+  }, [tokens, results])
+
+  const balances = tokenAddresses
+    .map((address) => balancesByToken.get(address.toLowerCase()))
+    .filter((balance): balance is NonNullable<typeof balance> => !!balance)
 
   return {
     balances,
-    isLoading,
-    hasError,
+    isLoading: isLoading && balances.some((b) => b.isLoading),
+    hasError: !!error || balances.some((b) => b.error),
+    refetch,
   }
 }
 
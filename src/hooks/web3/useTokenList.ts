@@ -0,0 +1,133 @@
+/**
+ * Token List Hook
+ *
+ * Custom hook for the merged token registry of bundled and user-supplied lists
+ */
+
+import { useMemo, useCallback } from 'react'
+import { useAccount } from 'wagmi'
+import { toast } from 'sonner@2.0.3'
+import { useTokenListStore } from '../../store/tokenListStore'
+import { useCustomTokenStore } from '../../store/customTokenStore'
+import { DEFAULT_TOKEN_LIST } from '../../lib/constants/tokenList'
+import { getTokenKey, mergeTokenLists, parseTokenList } from '../../lib/web3/tokenLists'
+import type { TokenInfo, TokenList } from '../../types/web3'
+
+/**
+ * Tag added to tokens imported by address
+ */
+export const CUSTOM_TOKEN_TAG = 'custom'
+
+/**
+ * Hook for every registry token across all chains
+ * Imported tokens follow the list tokens and are tagged `custom`
+ * @returns All tokens and the keys of those that come from a token list
+ */
+export function useRegistryTokens(): {
+  tokens: TokenInfo[]
+  listedKeys: Set<string>
+} {
+  const lists = useTokenListStore((state) => state.lists)
+  const customTokens = useCustomTokenStore((state) => state.tokens)
+
+  const listedTokens = useMemo(
+    () =>
+      mergeTokenLists([
+        ...lists.filter((entry) => entry.enabled).map((entry) => entry.list),
+        DEFAULT_TOKEN_LIST,
+      ]),
+    [lists]
+  )
+
+  const listedKeys = useMemo(
+    () => new Set(listedTokens.map((token) => getTokenKey(token.chainId, token.address))),
+    [listedTokens]
+  )
+
+  const tokens = useMemo(
+    () => [
+      ...listedTokens,
+      ...Object.values(customTokens)
+        .flat()
+        .filter((token) => !listedKeys.has(getTokenKey(token.chainId, token.address)))
+        .map((token) => ({ ...token, tags: [...(token.tags ?? []), CUSTOM_TOKEN_TAG] })),
+    ],
+    [listedTokens, listedKeys, customTokens]
+  )
+
+  return { tokens, listedKeys }
+}
+
+/**
+ * Hook for tokens available on a chain
+ * @param chainId - Optional chain ID (defaults to the connected chain)
+ * @returns Tokens for the chain, highest-priority metadata first
+ */
+export function useTokenList(chainId?: number): {
+  tokens: TokenInfo[]
+  chainId?: number
+  isListed: (address: string) => boolean
+} {
+  const { chainId: accountChainId } = useAccount()
+  const targetChainId = chainId ?? accountChainId
+  const { tokens: allTokens, listedKeys } = useRegistryTokens()
+
+  const tokens = useMemo(
+    () =>
+      targetChainId ? allTokens.filter((token) => token.chainId === targetChainId) : [],
+    [allTokens, targetChainId]
+  )
+
+  const isListed = useCallback(
+    (address: string) =>
+      !!targetChainId && listedKeys.has(getTokenKey(targetChainId, address)),
+    [listedKeys, targetChainId]
+  )
+
+  return {
+    tokens,
+    chainId: targetChainId,
+    isListed,
+  }
+}
+
+/**
+ * Hook for managing user-supplied token lists
+ * @returns Lists in priority order and management functions
+ */
+export function useTokenListManager() {
+  const { lists, addList, removeList, toggleList, moveList } = useTokenListStore()
+
+  /**
+   * Validate and add a token list file
+   * @param file - JSON file in token-list format
+   * @returns The imported list
+   */
+  const importFile = useCallback(
+    async (file: File): Promise<TokenList> => {
+      try {
+        const list = parseTokenList(await file.text())
+        addList(list)
+        toast.success(`Imported ${list.name}`, {
+          description: `${list.tokens.length} tokens`,
+        })
+        return list
+      } catch (error) {
+        toast.error('Token list import failed', {
+          description: error instanceof Error ? error.message : String(error),
+        })
+        throw error
+      }
+    },
+    [addList]
+  )
+
+  return {
+    lists,
+    defaultList: DEFAULT_TOKEN_LIST,
+    importFile,
+    removeList,
+    toggleList,
+    moveList,
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Transaction History Hook
+ *
+ * Custom hooks for recording submitted transactions and reading wallet activity
+ */
+
+import { useCallback } from 'react'
+import { useAccount } from 'wagmi'
+import { getPublicClient } from 'wagmi/actions'
+import type { Address, Hash } from 'viem'
+import { config } from '../../lib/web3/config'
+import { getHistoryKey, useTransactionStore } from '../../store/transactionStore'
+import type { Transaction } from '../../types/web3'
+import { useTransactionMonitor } from './useEventListener'
+
+/**
+ * Details of a submitted transaction
+ */
+interface RecordTransactionParams {
+  to: Address | null
+  /** Account paid by a transfer */
+  recipient?: Address
+  value?: bigint
+  type?: string
+  chainId?: number
+  /** Sender nonce, looked up from the node when not given */
+  nonce?: number
+}
+
+/**
+ * Stable empty list so selectors don't re-render on every call
+ */
+const EMPTY_HISTORY: Transaction[] = []
+
+/**
+ * Hook to record transactions into the persisted history
+ * @returns Functions for recording submissions and receipts
+ */
+export function useTransactionRecorder() {
+  const { address, chainId: accountChainId } = useAccount()
+  const addTransaction = useTransactionStore((state) => state.addTransaction)
+  const applyReceipt = useTransactionStore((state) => state.applyReceipt)
+  const updateTransaction = useTransactionStore((state) => state.updateTransaction)
+
+  /**
+   * Record a submitted transaction as pending
+   * @param hash - Transaction hash returned by the wallet
+   * @param params - Transaction details
+   */
+  const recordTransaction = useCallback(
+    (
+      hash: Hash,
+      { to, recipient, value = 0n, type, chainId, nonce }: RecordTransactionParams
+    ) => {
+      const targetChainId = chainId ?? accountChainId
+      if (!address || !targetChainId) return
+
+      addTransaction(targetChainId, {
+        hash,
+        from: address,
+        to,
+        recipient,
+        value,
+        timestamp: Math.floor(Date.now() / 1000),
+        status: 'pending',
+        type,
+        nonce,
+      })
+
+      if (nonce !== undefined) return
+
+      // Persist the nonce so replacements are detectable even if the tx is never seen again
+      getPublicClient(config, {
+        chainId: targetChainId as (typeof config)['chains'][number]['id'],
+      })
+        ?.getTransaction({ hash })
+        .then((transaction) => updateTransaction(hash, { nonce: transaction.nonce }))
+        .catch((error) => console.error('Failed to look up transaction nonce:', error))
+    },
+    [address, accountChainId, addTransaction, updateTransaction]
+  )
+
+  return {
+    recordTransaction,
+    recordReceipt: applyReceipt,
+  }
+}
+
+/**
+ * Hook to get transaction history for the connected wallet
+ * @param chainId - Optional chain ID (defaults to current chain)
+ * @returns Transactions, newest first, and a clear function
+ */
+export function useTransactionHistory(chainId?: number) {
+  const { address, chainId: accountChainId } = useAccount()
+  const targetChainId = chainId ?? accountChainId
+
+  const transactions = useTransactionStore((state) =>
+    address && targetChainId ? state.history[getHistoryKey(address, targetChainId)] : undefined
+  )
+  const clearHistory = useTransactionStore((state) => state.clearHistory)
+
+  const clear = useCallback(() => {
+    if (address && targetChainId) {
+      clearHistory(address, targetChainId)
+    }
+  }, [address, targetChainId, clearHistory])
+
+  const history = transactions ?? EMPTY_HISTORY
+
+  return {
+    transactions: history,
+    pendingCount: history.filter((tx) => tx.status === 'pending').length,
+    chainId: targetChainId,
+    clear,
+  }
+}
+
+/**
+ * Hook to settle a pending history entry as it confirms, fails, drops or is replaced
+ * Covers transactions still pending after a page reload
+ * @param transaction - Recorded transaction
+ * @param chainId - Chain the transaction was sent on
+ */
+export function usePendingTransactionSync(transaction: Transaction, chainId: number) {
+  const applyReceipt = useTransactionStore((state) => state.applyReceipt)
+  const updateTransaction = useTransactionStore((state) => state.updateTransaction)
+  const replaceTransaction = useTransactionStore((state) => state.replaceTransaction)
+
+  return useTransactionMonitor(
+    transaction.status === 'pending' ? transaction.hash : undefined,
+    {
+      chainId,
+      from: transaction.from,
+      nonce: transaction.nonce,
+      onConfirmed: applyReceipt,
+      onFailed: applyReceipt,
+      onDropped: () => updateTransaction(transaction.hash, { status: 'dropped' }),
+      onReplaced: ({ hash, reason, transaction: replacement, receipt }) => {
+        if (!hash || !replacement || !receipt) {
+          updateTransaction(transaction.hash, { status: 'replaced' })
+          return
+        }
+
+        replaceTransaction(chainId, transaction.hash, {
+          hash,
+          from: transaction.from,
+          to: replacement.to,
+          value: replacement.value,
+          timestamp: Math.floor(Date.now() / 1000),
+          status: receipt.status === 'success' ? 'success' : 'failed',
+          gasUsed: receipt.gasUsed,
+          gasPrice: receipt.effectiveGasPrice,
+          blockNumber: receipt.blockNumber,
+          type: reason === 'cancelled' ? 'cancel' : transaction.type,
+          nonce: transaction.nonce,
+        })
+      },
+    }
+  )
+}
@@ -0,0 +1,64 @@
+/**
+ * Transfer Preview Hook
+ *
+ * Custom hook for the simulated outcome of a transfer before it is signed
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { useAccount, usePublicClient } from 'wagmi'
+import { previewTransfer, type TransferPreviewParams } from '../../lib/web3/transferPreview'
+import { useAddressBook } from './useAddressBook'
+import { useTransactionHistory } from './useTransactionHistory'
+
+/**
+ * Hook for previewing a transfer from the connected account
+ * @param params - Recipient, asset, amount and gas overrides, or undefined to skip
+ * @returns Preview query and whether the recipient is new to this wallet
+ */
+export function useTransferPreview(
+  params: Omit<TransferPreviewParams, 'from'> | undefined
+) {
+  const { address, chainId } = useAccount()
+  const publicClient = usePublicClient()
+  const { recents, getContact } = useAddressBook(chainId)
+  const { transactions } = useTransactionHistory(chainId)
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [
+      'transfer-preview',
+      chainId,
+      address,
+      params?.to,
+      params?.asset,
+      params?.amount.toString(),
+      params?.overrides?.gas?.toString(),
+      (params?.overrides?.maxFeePerGas ?? params?.overrides?.gasPrice)?.toString(),
+    ],
+    queryFn: () => previewTransfer(publicClient!, { from: address!, ...params! }),
+    enabled: !!params && !!address && !!publicClient,
+    staleTime: 0,
+    gcTime: 0,
+    retry: false,
+  })
+
+  // Only completed transfers on this chain count; older records without a
+  // recipient fall back to `to` for plain sends
+  const recipient = params?.to.toLowerCase()
+  const isFirstTime =
+    !!recipient &&
+    !getContact(recipient) &&
+    !recents.some((recent) => recent.address.toLowerCase() === recipient) &&
+    !transactions.some(
+      (tx) =>
+        tx.status === 'success' &&
+        (tx.recipient ?? (tx.type === 'send' ? tx.to : undefined))?.toLowerCase() === recipient
+    )
+
+  return {
+    preview: data,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+    isFirstTime,
+  }
+}
@@ -7,6 +7,7 @@
 import { useEffect } from 'react'
 import { useAccount, useDisconnect, useChainId, useSwitchChain } from 'wagmi'
 import { useWalletStore } from '../../store/walletStore'
+import { useSessionStore } from '../../store/sessionStore'
 import type { WalletState } from '../../types/web3'
 
 /**
@@ -23,6 +24,7 @@ export function useWallet(): WalletState & {
   const { switchChainAsync } = useSwitchChain()
   
   const { setLastConnected, clearLastConnected } = useWalletStore()
+  const clearSession = useSessionStore((state) => state.clearSession)
 
   // Persist connection state
   useEffect(() => {
@@ -37,6 +39,7 @@ export function useWallet(): WalletState & {
   const disconnect = () => {
     wagmiDisconnect()
     clearLastConnected()
+    clearSession()
   }
 
   /**
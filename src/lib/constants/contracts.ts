@@ -37,6 +37,25 @@ export const CONTRACT_ADDRESSES = {
     [ChainId.POLYGON_AMOY]: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
   },
 
+  // Batch transfer contract (disperse.app), same address on every chain
+  DISPERSE: {
+    [ChainId.MAINNET]: '0xD152f549545093347A162Dce210e7293f1452150',
+    [ChainId.SEPOLIA]: '0xD152f549545093347A162Dce210e7293f1452150',
+    [ChainId.POLYGON]: '0xD152f549545093347A162Dce210e7293f1452150',
+    [ChainId.ARBITRUM]: '0xD152f549545093347A162Dce210e7293f1452150',
+    [ChainId.OPTIMISM]: '0xD152f549545093347A162Dce210e7293f1452150',
+  },
+
+  // OP Stack L1 data fee oracle predeploy
+  GAS_PRICE_ORACLE: {
+    [ChainId.OPTIMISM]: '0x420000000000000000000000000000000000000F',
+  },
+
+  // Arbitrum NodeInterface, only callable through eth_call and eth_estimateGas
+  NODE_INTERFACE: {
+    [ChainId.ARBITRUM]: '0x00000000000000000000000000000000000000C8',
+  },
+
   // Custom DApp Contracts
   SAMPLE_CONTRACT: {
     [ChainId.SEPOLIA]: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
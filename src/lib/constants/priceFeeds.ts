@@ -0,0 +1,87 @@
+/**
+ * Price Feed Addresses
+ *
+ * Chainlink USD price feeds by chain for the native currency and bundled tokens
+ */
+
+import type { Address } from 'viem'
+import { ChainId } from '../web3/config'
+import { CONTRACT_ADDRESSES } from './contracts'
+
+/**
+ * Chainlink aggregator and its heartbeat in seconds
+ * A price older than the heartbeat is considered stale
+ */
+export interface PriceFeed {
+  address: Address
+  heartbeat: number
+}
+
+/**
+ * Feeds available on a chain
+ * Token feeds are keyed by lowercase token address
+ */
+export interface ChainPriceFeeds {
+  native?: PriceFeed
+  tokens: Record<string, PriceFeed>
+}
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+
+/**
+ * Build the token feed map from CONTRACT_ADDRESSES
+ */
+function tokenFeeds(
+  chainId: number,
+  feeds: Partial<Record<'USDC' | 'USDT' | 'DAI', PriceFeed>>
+): Record<string, PriceFeed> {
+  const result: Record<string, PriceFeed> = {}
+  for (const [symbol, feed] of Object.entries(feeds) as Array<[keyof typeof feeds, PriceFeed]>) {
+    const token = CONTRACT_ADDRESSES[symbol][chainId as keyof (typeof CONTRACT_ADDRESSES)[typeof symbol]]
+    if (token) {
+      result[(token as string).toLowerCase()] = feed
+    }
+  }
+  return result
+}
+
+/**
+ * Chainlink price feeds by chain
+ * Mainnets only: testnet assets have no market value
+ * See https://docs.chain.link/data-feeds/price-feeds/addresses
+ */
+export const PRICE_FEEDS: Record<number, ChainPriceFeeds> = {
+  [ChainId.MAINNET]: {
+    native: { address: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', heartbeat: HOUR },
+    tokens: tokenFeeds(ChainId.MAINNET, {
+      USDC: { address: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6', heartbeat: DAY },
+      USDT: { address: '0x3E7d1eAB13ad0104d2750B8863b489D65364e32D', heartbeat: DAY },
+      DAI: { address: '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9', heartbeat: HOUR },
+    }),
+  },
+  [ChainId.POLYGON]: {
+    native: { address: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0', heartbeat: 27 },
+    tokens: tokenFeeds(ChainId.POLYGON, {
+      USDC: { address: '0xfE4A8cc5b5B2366C1B58Bea3858e81843581b2F7', heartbeat: 27 },
+      USDT: { address: '0x0A6513e40db6EB1b165753AD52E80663aeA50545', heartbeat: 27 },
+      DAI: { address: '0x4746DeC9e833A82EC7C2C1356372CcF2cfcD2F3D', heartbeat: 27 },
+    }),
+  },
+  [ChainId.ARBITRUM]: {
+    native: { address: '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612', heartbeat: DAY },
+    tokens: tokenFeeds(ChainId.ARBITRUM, {
+      USDC: { address: '0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3', heartbeat: DAY },
+      USDT: { address: '0x3f3f5dF88dC9F13eac63DF89EC16ef6e7E25DdE7', heartbeat: DAY },
+      DAI: { address: '0xc5C8E77B397E531B8EC06BFb0048328B30E9eCfB', heartbeat: DAY },
+    }),
+  },
+  [ChainId.OPTIMISM]: {
+    native: { address: '0x13e3Ee699D1909E989722E753853AE30b17e08c5', heartbeat: 20 * 60 },
+    tokens: tokenFeeds(ChainId.OPTIMISM, {
+      USDC: { address: '0x16a9FA2FDa030272Ce99B29CF780dFA30361E0f3', heartbeat: DAY },
+      USDT: { address: '0xECef79E109e997bCA29c1c0897ec9d7b03647F5E', heartbeat: DAY },
+      DAI: { address: '0x8dBa75e83DA73cc766A7e5a0ee71F656BAb470d6', heartbeat: DAY },
+    }),
+  },
+}
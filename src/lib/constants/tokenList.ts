@@ -0,0 +1,60 @@
+/**
+ * Default Token List
+ *
+ * Bundled token list in Uniswap token-list format, built from CONTRACT_ADDRESSES
+ */
+
+import type { Address } from 'viem'
+import { CONTRACT_ADDRESSES } from './contracts'
+import { getTokenKey } from '../web3/tokenLists'
+import type { TokenInfo, TokenList } from '../../types/web3'
+
+/**
+ * Metadata for the bundled ERC20 tokens
+ */
+const DEFAULT_TOKENS = {
+  USDC: { name: 'USD Coin', decimals: 6 },
+  USDT: { name: 'Tether USD', decimals: 6 },
+  DAI: { name: 'Dai Stablecoin', decimals: 18 },
+} as const
+
+/**
+ * Bundled token list
+ * Always available and merged with the lowest priority
+ */
+export const DEFAULT_TOKEN_LIST: TokenList = {
+  name: 'Default',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  version: { major: 1, minor: 0, patch: 0 },
+  tokens: (Object.keys(DEFAULT_TOKENS) as Array<keyof typeof DEFAULT_TOKENS>).flatMap(
+    (symbol) =>
+      Object.entries(CONTRACT_ADDRESSES[symbol]).map(
+        ([chainId, address]): TokenInfo => ({
+          chainId: Number(chainId),
+          address: address as Address,
+          symbol,
+          ...DEFAULT_TOKENS[symbol],
+        })
+      )
+  ),
+}
+
+/**
+ * Bundled token symbols by chain and address
+ */
+const DEFAULT_TOKEN_SYMBOLS = new Map(
+  DEFAULT_TOKEN_LIST.tokens.map((token) => [
+    getTokenKey(token.chainId, token.address),
+    token.symbol,
+  ])
+)
+
+/**
+ * Get the symbol of a bundled token, which identifies the same asset across chains
+ * @param chainId - Chain ID
+ * @param address - Token address
+ * @returns Symbol, or undefined if the address is not a bundled token on that chain
+ */
+export function getDefaultTokenSymbol(chainId: number, address: string): string | undefined {
+  return DEFAULT_TOKEN_SYMBOLS.get(getTokenKey(chainId, address))
+}
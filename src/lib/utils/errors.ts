@@ -4,6 +4,9 @@
  * Centralized error handling with user-friendly messages
  */
 
+import { BaseError, decodeErrorResult } from 'viem'
+import type { Abi, Hex } from 'viem'
+
 /**
  * Web3 error types
  */
@@ -43,6 +46,9 @@ export function parseWeb3Error(error: unknown): string {
   // Handle string errors
   if (typeof error === 'string') return error
 
+  // Already user-friendly
+  if (error instanceof Web3Error) return error.message
+
   // Handle Error objects
   if (error instanceof Error) {
     const message = error.message.toLowerCase()
@@ -161,3 +167,112 @@ export function handleError(
   const message = parseWeb3Error(error)
   toast(message)
 }
+
+/**
+ * Solidity panic codes and their meaning
+ */
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division or modulo by zero',
+  0x21: 'Invalid enum value',
+  0x22: 'Incorrectly encoded storage byte array',
+  0x31: 'Pop on an empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to an uninitialized internal function',
+}
+
+/**
+ * Decoded contract revert
+ */
+export interface DecodedRevert {
+  reason: string
+  errorName?: string
+  args?: readonly unknown[]
+  signature?: Hex
+}
+
+/**
+ * Format a decoded error argument for display
+ */
+function formatRevertArg(arg: unknown): string {
+  if (typeof arg === 'bigint') return arg.toString()
+  if (typeof arg === 'string') return arg
+  try {
+    return JSON.stringify(arg, (_key, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    )
+  } catch {
+    return String(arg)
+  }
+}
+
+/**
+ * Extract raw revert data from an RPC or viem error
+ * @param error - Error thrown by eth_call or a contract simulation
+ * @returns Revert data or undefined when the error carries none
+ */
+export function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return undefined
+
+  // The innermost error often carries no data, so find the one that does
+  const cause = error.walk((e) => typeof (e as { data?: unknown })?.data === 'string') as
+    | { data?: Hex }
+    | null
+  const data = cause?.data
+  return typeof data === 'string' && data.startsWith('0x') ? data : undefined
+}
+
+/**
+ * Decode revert data into a readable reason
+ * Handles Error(string), Panic(uint256) and custom errors declared in the ABI
+ * @param data - Raw revert data
+ * @param abi - Contract ABI used to look up custom errors
+ * @returns Decoded revert
+ */
+export function decodeRevertData(data: Hex, abi: Abi = []): DecodedRevert {
+  if (data === '0x') {
+    return { reason: 'Execution reverted without a reason' }
+  }
+
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data }) as {
+      errorName: string
+      args?: readonly unknown[]
+    }
+
+    if (errorName === 'Error') {
+      return { reason: String(args?.[0] ?? ''), errorName, args }
+    }
+
+    if (errorName === 'Panic') {
+      const code = Number(args?.[0] ?? 0)
+      return {
+        reason: PANIC_REASONS[code] ?? `Panic code 0x${code.toString(16)}`,
+        errorName,
+        args,
+      }
+    }
+
+    return {
+      reason: `${errorName}(${(args ?? []).map(formatRevertArg).join(', ')})`,
+      errorName,
+      args,
+    }
+  } catch {
+    const signature = data.slice(0, 10) as Hex
+    return { reason: `Unknown custom error ${signature}`, signature }
+  }
+}
+
+/**
+ * Check whether an error is an execution revert rather than a transport failure
+ * @param error - Error to check
+ * @returns True if the call reverted
+ */
+export function isRevertError(error: unknown): boolean {
+  if (getRevertData(error) !== undefined) return true
+  const message = error instanceof Error ? error.message.toLowerCase() : ''
+  return message.includes('revert')
+}
@@ -0,0 +1,68 @@
+/**
+ * Address Poisoning Detection
+ *
+ * Find known addresses that a recipient imitates. Poisoning attacks plant
+ * addresses sharing the first and last characters of one the user trusts,
+ * since wallets and explorers usually show only those
+ */
+
+import type { Address } from 'viem'
+
+/**
+ * Hex characters compared at each end of an address
+ */
+const LOOKALIKE_PREFIX_LENGTH = 4
+const LOOKALIKE_SUFFIX_LENGTH = 4
+
+/**
+ * Address the user has interacted with or saved
+ */
+export interface KnownAddress {
+  address: Address
+  label?: string
+  source: 'contact' | 'recent' | 'history'
+}
+
+/**
+ * Check whether two addresses look alike without being the same
+ * @param a - First address
+ * @param b - Second address
+ * @returns True if the prefixes and suffixes match but the middle differs
+ */
+export function isLookalikeAddress(a: string, b: string): boolean {
+  const left = a.toLowerCase().slice(2)
+  const right = b.toLowerCase().slice(2)
+  if (left === right) return false
+
+  return (
+    left.slice(0, LOOKALIKE_PREFIX_LENGTH) === right.slice(0, LOOKALIKE_PREFIX_LENGTH) &&
+    left.slice(-LOOKALIKE_SUFFIX_LENGTH) === right.slice(-LOOKALIKE_SUFFIX_LENGTH)
+  )
+}
+
+/**
+ * Find known addresses a candidate imitates
+ * @param candidate - Address about to receive funds
+ * @param known - Contacts, recent recipients and history
+ * @returns Look-alike known addresses, one per address
+ */
+export function findLookalikes(candidate: Address, known: KnownAddress[]): KnownAddress[] {
+  const seen = new Set<string>()
+
+  return known.filter((entry) => {
+    const key = entry.address.toLowerCase()
+    if (seen.has(key) || !isLookalikeAddress(candidate, entry.address)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Mark the characters that differ between two addresses, ignoring case
+ * @param a - Address to mark
+ * @param b - Address to compare against
+ * @returns One flag per character of `a`
+ */
+export function getDifferingCharacters(a: string, b: string): boolean[] {
+  return Array.from(a, (char, index) => char.toLowerCase() !== b[index]?.toLowerCase())
+}
@@ -0,0 +1,206 @@
+/**
+ * Token Approvals
+ *
+ * Discovery of ERC20 approvals from Approval event logs, and setting new allowances
+ */
+
+import { maxUint96 } from 'viem'
+import type { Abi, Address, Hash, PublicClient } from 'viem'
+import { ERC20_ABI } from '../../contracts/abis/ERC20'
+import { simulateWrite } from './simulation'
+
+/**
+ * Blocks requested per eth_getLogs call before adaptive shrinking
+ */
+const DEFAULT_CHUNK_SIZE = 50_000n
+
+/**
+ * Smallest chunk tried before giving up on a range
+ */
+const MIN_CHUNK_SIZE = 500n
+
+/**
+ * Block time assumed when the chain does not declare one, in milliseconds
+ */
+const DEFAULT_BLOCK_TIME = 12_000
+
+/**
+ * How far back to scan: a number of days, or the whole chain history
+ */
+export type ApprovalLookback = number | 'all'
+
+/**
+ * Lookback choices offered in the allowance manager
+ */
+export const APPROVAL_LOOKBACKS: ApprovalLookback[] = [30, 365, 'all']
+
+/**
+ * Token and spender pair found in the owner's Approval logs
+ */
+export interface DiscoveredApproval {
+  token: Address
+  spender: Address
+  lastApprovedBlock: bigint
+}
+
+/**
+ * Approvals found in a scan and the block range covered
+ */
+export interface ApprovalScan {
+  approvals: DiscoveredApproval[]
+  fromBlock: bigint
+  toBlock: bigint
+}
+
+/**
+ * Approval event from ERC20_ABI
+ */
+type ApprovalEvent = Extract<(typeof ERC20_ABI)[number], { type: 'event'; name: 'Approval' }>
+
+const APPROVAL_EVENT = ERC20_ABI.find(
+  (item): item is ApprovalEvent => item.type === 'event' && item.name === 'Approval'
+)!
+
+/**
+ * Check whether an RPC error means the log query was too large
+ */
+function isRangeTooLargeError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message.toLowerCase() : ''
+  return (
+    message.includes('range') ||
+    message.includes('too many') ||
+    message.includes('limit') ||
+    message.includes('10000') ||
+    message.includes('timeout')
+  )
+}
+
+/**
+ * Convert a lookback into a block count using the chain's block time
+ * @param client - Public client for the chain
+ * @param lookback - Days to look back, or 'all'
+ * @returns Number of blocks, or undefined to scan from genesis
+ */
+export function getLookbackBlocks(
+  client: PublicClient,
+  lookback: ApprovalLookback
+): bigint | undefined {
+  if (lookback === 'all') return undefined
+  const blockTime = client.chain?.blockTime ?? DEFAULT_BLOCK_TIME
+  return BigInt(Math.ceil((lookback * 24 * 60 * 60 * 1000) / blockTime))
+}
+
+/**
+ * Scan Approval logs emitted for an owner
+ * Walks backwards from the latest block in chunks, halving the chunk when the RPC rejects a range
+ * @param client - Public client
+ * @param owner - Token owner
+ * @param options - Lookback period and the initial chunk size
+ * @returns Unique token/spender pairs, most recently approved first, and the scanned range
+ */
+export async function scanApprovals(
+  client: PublicClient,
+  owner: Address,
+  options: { lookback: ApprovalLookback; chunkSize?: bigint }
+): Promise<ApprovalScan> {
+  const latest = await client.getBlockNumber()
+  const lookbackBlocks = getLookbackBlocks(client, options.lookback)
+  const earliest =
+    lookbackBlocks !== undefined && latest > lookbackBlocks ? latest - lookbackBlocks : 0n
+
+  const approvals = new Map<string, DiscoveredApproval>()
+  let chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  let toBlock = latest
+
+  while (toBlock >= earliest) {
+    const fromBlock = toBlock - chunkSize + 1n > earliest ? toBlock - chunkSize + 1n : earliest
+
+    let logs
+    try {
+      logs = await client.getLogs({
+        event: APPROVAL_EVENT,
+        args: { owner },
+        fromBlock,
+        toBlock,
+        // ERC721 Approval shares the signature but indexes tokenId; skip those logs
+        strict: true,
+      })
+    } catch (error) {
+      if (isRangeTooLargeError(error) && chunkSize > MIN_CHUNK_SIZE) {
+        chunkSize /= 2n
+        continue
+      }
+      throw error
+    }
+
+    for (const log of logs) {
+      const key = `${log.address.toLowerCase()}:${log.args.spender.toLowerCase()}`
+      const existing = approvals.get(key)
+      if (!existing || (log.blockNumber ?? 0n) > existing.lastApprovedBlock) {
+        approvals.set(key, {
+          token: log.address,
+          spender: log.args.spender,
+          lastApprovedBlock: log.blockNumber ?? 0n,
+        })
+      }
+    }
+
+    if (fromBlock === 0n || fromBlock === earliest) break
+    toBlock = fromBlock - 1n
+  }
+
+  return {
+    approvals: Array.from(approvals.values()).sort((a, b) =>
+      a.lastApprovedBlock > b.lastApprovedBlock ? -1 : 1
+    ),
+    fromBlock: earliest,
+    toBlock: latest,
+  }
+}
+
+/**
+ * Check whether an allowance is effectively unlimited
+ * Tokens like UNI and COMP cap allowances at uint96, so anything at or above that counts
+ * @param allowance - Current allowance
+ * @returns True for unlimited approvals
+ */
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= maxUint96
+}
+
+/**
+ * Set an allowance, resetting it to zero first when the token requires it
+ * Tokens like USDT revert when changing one nonzero allowance to another, so when
+ * approve(amount) would revert, approve(0) is sent and confirmed before it
+ * @param client - Public client for the token's chain
+ * @param approve - Submits approve(spender, amount) from the owner and returns its hash
+ * @param params - Owner, token, spender and new allowance
+ * @returns Hash of the final approval
+ */
+export async function approveWithReset(
+  client: PublicClient,
+  approve: (amount: bigint) => Promise<Hash>,
+  {
+    owner,
+    token,
+    spender,
+    amount,
+  }: { owner: Address; token: Address; spender: Address; amount: bigint }
+): Promise<Hash> {
+  if (amount > 0n) {
+    const simulation = await simulateWrite(client, {
+      account: owner,
+      address: token,
+      abi: ERC20_ABI as Abi,
+      functionName: 'approve',
+      args: [spender, amount],
+    })
+
+    if (simulation.status === 'reverted') {
+      const reset = await client.waitForTransactionReceipt({ hash: await approve(0n) })
+      if (reset.status !== 'success') throw new Error('Resetting the allowance to zero failed')
+    }
+  }
+
+  return approve(amount)
+}
@@ -0,0 +1,44 @@
+/**
+ * Gas Alerts
+ *
+ * Threshold checks for base fee alerts, with hysteresis so a base fee
+ * hovering around the threshold fires only once
+ */
+
+import type { GasAlert } from '../../types/web3'
+
+/**
+ * Base fee, in percent of the threshold, that re-arms a fired alert
+ */
+export const GAS_ALERT_REARM_PERCENT = 110n
+
+/**
+ * What to do with an alert after a new block
+ */
+export type GasAlertAction = 'trigger' | 'rearm'
+
+/**
+ * Get the base fee an alert must rise above before it can fire again
+ * @param threshold - Alert threshold in wei
+ * @returns Re-arm level in wei
+ */
+export function getRearmThreshold(threshold: bigint): bigint {
+  return (threshold * GAS_ALERT_REARM_PERCENT) / 100n
+}
+
+/**
+ * Check an alert against a block's base fee
+ * @param alert - Alert to check
+ * @param baseFeePerGas - Base fee of the new block
+ * @returns 'trigger' when an armed alert's threshold is crossed, 'rearm' when a
+ * fired alert's base fee has recovered, otherwise undefined
+ */
+export function evaluateGasAlert(
+  alert: GasAlert,
+  baseFeePerGas: bigint
+): GasAlertAction | undefined {
+  if (!alert.enabled) return undefined
+  if (alert.armed && baseFeePerGas < alert.threshold) return 'trigger'
+  if (!alert.armed && baseFeePerGas > getRearmThreshold(alert.threshold)) return 'rearm'
+  return undefined
+}
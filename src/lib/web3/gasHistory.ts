@@ -0,0 +1,100 @@
+/**
+ * Gas History
+ *
+ * Per-block base and priority fees from `eth_feeHistory`, with summary statistics
+ */
+
+import type { PublicClient } from 'viem'
+
+/**
+ * Fees paid in one block
+ */
+export interface GasHistoryPoint {
+  blockNumber: bigint
+  baseFeePerGas: bigint
+  /** Median tip paid by transactions in the block */
+  priorityFeePerGas: bigint
+  gasUsedRatio: number
+}
+
+/**
+ * Lowest, median and highest value of a series
+ */
+export interface GasHistorySummary {
+  min: bigint
+  median: bigint
+  max: bigint
+}
+
+/**
+ * Selectable chart windows, in blocks
+ */
+export const GAS_HISTORY_WINDOWS = [20, 50, 100] as const
+
+export type GasHistoryWindow = (typeof GAS_HISTORY_WINDOWS)[number]
+
+/**
+ * Most blocks kept in the rolling history
+ */
+export const MAX_GAS_HISTORY_BLOCKS = GAS_HISTORY_WINDOWS[GAS_HISTORY_WINDOWS.length - 1]
+
+/**
+ * Fetch fees for a range of blocks
+ * @param client - Public client for the chain
+ * @param blockCount - Number of blocks to fetch
+ * @param blockNumber - Newest block of the range, or the latest block when omitted
+ * @returns One point per block, oldest first
+ */
+export async function fetchGasHistory(
+  client: PublicClient,
+  blockCount: number,
+  blockNumber?: bigint
+): Promise<GasHistoryPoint[]> {
+  const history = await client.getFeeHistory({
+    blockCount,
+    rewardPercentiles: [50],
+    ...(blockNumber !== undefined ? { blockNumber } : { blockTag: 'latest' as const }),
+  })
+
+  // baseFeePerGas has an extra entry for the block after the range
+  return history.gasUsedRatio.map((gasUsedRatio, index) => ({
+    blockNumber: history.oldestBlock + BigInt(index),
+    baseFeePerGas: history.baseFeePerGas[index] ?? 0n,
+    priorityFeePerGas: history.reward?.[index]?.[0] ?? 0n,
+    gasUsedRatio,
+  }))
+}
+
+/**
+ * Add new points to a history, dropping duplicates and the oldest overflow
+ * @param history - Existing points, oldest first
+ * @param points - Points to add
+ * @returns Merged points, oldest first, at most MAX_GAS_HISTORY_BLOCKS long
+ */
+export function mergeGasHistory(
+  history: GasHistoryPoint[],
+  points: GasHistoryPoint[]
+): GasHistoryPoint[] {
+  const byBlock = new Map(history.map((point) => [point.blockNumber, point]))
+  for (const point of points) byBlock.set(point.blockNumber, point)
+
+  return Array.from(byBlock.values())
+    .sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : 1))
+    .slice(-MAX_GAS_HISTORY_BLOCKS)
+}
+
+/**
+ * Summarize a fee series
+ * @param values - Fees in wei
+ * @returns Min, median and max, or undefined for an empty series
+ */
+export function summarizeGasHistory(values: bigint[]): GasHistorySummary | undefined {
+  if (values.length === 0) return undefined
+
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return {
+    min: sorted[0],
+    median: sorted[Math.floor(sorted.length / 2)],
+    max: sorted[sorted.length - 1],
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Gas Oracle
+ *
+ * EIP-1559 fee suggestions from `eth_feeHistory` reward percentiles and the
+ * base-fee trend, with a gas-price fallback for legacy chains
+ */
+
+import type { PublicClient } from 'viem'
+
+/**
+ * Fee speed tiers, cheapest first
+ */
+export type GasTier = 'slow' | 'standard' | 'fast'
+
+export const GAS_TIERS: GasTier[] = ['slow', 'standard', 'fast']
+
+/**
+ * Direction the base fee has moved over the sampled blocks
+ */
+export type BaseFeeTrend = 'rising' | 'falling' | 'stable'
+
+/**
+ * Suggested fees for one tier
+ */
+export interface GasTierFees {
+  /** Fee cap to sign; legacy chains use it as the gas price */
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  /** Price per gas expected to be paid if included in the next block */
+  gasPrice: bigint
+  /** Expected wait until inclusion */
+  estimatedSeconds: number
+}
+
+/**
+ * Oracle output for the current chain
+ */
+export interface GasOracle {
+  type: 'eip1559' | 'legacy'
+  /** Base fee of the next block (EIP-1559 only) */
+  baseFeePerGas?: bigint
+  baseFeeTrend: BaseFeeTrend
+  /** Average block time in seconds */
+  blockTime: number
+  tiers: Record<GasTier, GasTierFees>
+}
+
+/**
+ * Number of recent blocks sampled from the fee history
+ */
+const FEE_HISTORY_BLOCKS = 20
+
+/**
+ * Reward percentile sampled for each tier, as tips paid by included transactions
+ */
+const TIER_PERCENTILES: Record<GasTier, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90,
+}
+
+/**
+ * Reward percentile taken as the lowest tip that still got into a block,
+ * for estimating inclusion time
+ */
+const INCLUSION_PERCENTILE = 1
+
+/**
+ * Base fee headroom per tier, in percent of the next base fee
+ * The base fee can grow 12.5% per full block, so these cover 1, 2 and 4 full blocks
+ */
+const TIER_BASE_FEE_HEADROOM: Record<GasTier, bigint> = {
+  slow: 113n,
+  standard: 127n,
+  fast: 161n,
+}
+
+/**
+ * Extra headroom, in percent, while the base fee is rising
+ */
+const RISING_BASE_FEE_HEADROOM = 113n
+
+/**
+ * Change in percent between the sampled average and next base fee that counts as a trend
+ */
+const TREND_THRESHOLD = 5n
+
+/**
+ * Legacy gas price multipliers per tier, in percent of `eth_gasPrice`
+ */
+const LEGACY_MULTIPLIERS: Record<GasTier, bigint> = {
+  slow: 90n,
+  standard: 100n,
+  fast: 125n,
+}
+
+/**
+ * Expected blocks until inclusion per tier on legacy chains
+ */
+const LEGACY_BLOCKS: Record<GasTier, number> = {
+  slow: 5,
+  standard: 2,
+  fast: 1,
+}
+
+/**
+ * Block time assumed when the chain does not declare one, in milliseconds
+ */
+const DEFAULT_BLOCK_TIME = 12_000
+
+/**
+ * Median of a list of values
+ * @param values - Values to take the median of
+ * @returns Median, or 0 for an empty list
+ */
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return 0n
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Compare the next base fee with the average over the sampled blocks
+ * @param baseFees - Historical base fees, ending with the next block's
+ * @returns Trend of the base fee
+ */
+function getBaseFeeTrend(baseFees: bigint[]): BaseFeeTrend {
+  const next = baseFees[baseFees.length - 1]
+  const history = baseFees.slice(0, -1)
+  if (history.length === 0) return 'stable'
+
+  const average = history.reduce((sum, fee) => sum + fee, 0n) / BigInt(history.length)
+  if (average === 0n) return 'stable'
+  if (next * 100n > average * (100n + TREND_THRESHOLD)) return 'rising'
+  if (next * 100n < average * (100n - TREND_THRESHOLD)) return 'falling'
+  return 'stable'
+}
+
+/**
+ * Estimate the wait for a fee from how often it would have made it into recent blocks
+ * A block counts when the fee cap covered its base fee and the tip reached the
+ * 1st-percentile tip paid in it
+ * @param maxFeePerGas - Fee cap
+ * @param maxPriorityFeePerGas - Tip
+ * @param baseFees - Base fee of each sampled block
+ * @param minRewards - 1st-percentile tip of each sampled block
+ * @returns Expected number of blocks until inclusion
+ */
+function getExpectedBlocks(
+  maxFeePerGas: bigint,
+  maxPriorityFeePerGas: bigint,
+  baseFees: bigint[],
+  minRewards: bigint[]
+): number {
+  const included = minRewards.filter(
+    (reward, index) => maxFeePerGas >= baseFees[index] && maxPriorityFeePerGas >= reward
+  ).length
+  if (included === 0) return minRewards.length || 1
+  return Math.max(1, Math.ceil(minRewards.length / included))
+}
+
+/**
+ * Suggest fees from the legacy gas price
+ */
+async function getLegacyGasOracle(client: PublicClient, blockTime: number): Promise<GasOracle> {
+  const gasPrice = await client.getGasPrice()
+
+  const tiers = Object.fromEntries(
+    GAS_TIERS.map((tier) => {
+      const price = (gasPrice * LEGACY_MULTIPLIERS[tier]) / 100n
+      return [
+        tier,
+        {
+          maxFeePerGas: price,
+          maxPriorityFeePerGas: price,
+          gasPrice: price,
+          estimatedSeconds: LEGACY_BLOCKS[tier] * blockTime,
+        },
+      ]
+    })
+  ) as Record<GasTier, GasTierFees>
+
+  return { type: 'legacy', baseFeeTrend: 'stable', blockTime, tiers }
+}
+
+/**
+ * Suggest per-tier fees for the client's chain
+ * Falls back to the legacy gas price when the chain has no base fee
+ * @param client - Public client for the chain
+ * @returns Fees and expected inclusion time for each tier
+ */
+export async function getGasOracle(client: PublicClient): Promise<GasOracle> {
+  const blockTime = (client.chain?.blockTime ?? DEFAULT_BLOCK_TIME) / 1000
+  // Inclusion percentile first, then one per tier
+  const percentiles = [INCLUSION_PERCENTILE, ...GAS_TIERS.map((tier) => TIER_PERCENTILES[tier])]
+
+  const history = await client
+    .getFeeHistory({
+      blockCount: FEE_HISTORY_BLOCKS,
+      blockTag: 'latest',
+      rewardPercentiles: percentiles,
+    })
+    .catch(() => undefined)
+
+  const baseFees = history?.baseFeePerGas ?? []
+  const nextBaseFee = baseFees[baseFees.length - 1]
+  if (!history || !nextBaseFee) return getLegacyGasOracle(client, blockTime)
+
+  // Skip empty blocks, which report zero tips
+  const rewards = (history.reward ?? []).filter((_, index) => history.gasUsedRatio[index] > 0)
+  const baseFeeTrend = getBaseFeeTrend(baseFees)
+
+  // Quiet chains may have no tips to sample
+  const fallbackTip =
+    rewards.length === 0 ? await client.estimateMaxPriorityFeePerGas().catch(() => 0n) : 0n
+
+  const sampledBaseFees = baseFees
+    .slice(0, -1)
+    .filter((_, index) => history.gasUsedRatio[index] > 0)
+  const minRewards = rewards.map((reward) => reward[0])
+
+  const tiers = Object.fromEntries(
+    GAS_TIERS.map((tier, index) => {
+      const tip =
+        rewards.length > 0 ? median(rewards.map((reward) => reward[index + 1])) : fallbackTip
+
+      let baseFeeCap = (nextBaseFee * TIER_BASE_FEE_HEADROOM[tier]) / 100n
+      if (baseFeeTrend === 'rising') baseFeeCap = (baseFeeCap * RISING_BASE_FEE_HEADROOM) / 100n
+
+      const maxFeePerGas = baseFeeCap + tip
+      const blocks =
+        minRewards.length > 0
+          ? getExpectedBlocks(maxFeePerGas, tip, sampledBaseFees, minRewards)
+          : 1
+
+      return [
+        tier,
+        {
+          maxFeePerGas,
+          maxPriorityFeePerGas: tip,
+          gasPrice: nextBaseFee + tip,
+          estimatedSeconds: blocks * blockTime,
+        },
+      ]
+    })
+  ) as Record<GasTier, GasTierFees>
+
+  return { type: 'eip1559', baseFeePerGas: nextBaseFee, baseFeeTrend, blockTime, tiers }
+}
@@ -0,0 +1,184 @@
+/**
+ * Gas Settings
+ *
+ * Turn advanced gas panel input into transaction fee, gas limit and nonce
+ * overrides, and flag settings likely to fail or stall
+ */
+
+import { parseUnits } from 'viem'
+import { formatGwei } from '../../utils/formatters'
+import type { GasOracle, GasTier } from './gasOracle'
+
+/**
+ * Advanced gas panel input
+ * Custom values are kept as entered; empty means "use the default"
+ */
+export interface GasSettings {
+  /** 'auto' leaves fees to the wallet; an oracle tier; or 'custom' for the fee fields below */
+  mode: 'auto' | GasTier | 'custom'
+  /** Gwei */
+  maxFeePerGas: string
+  /** Gwei */
+  maxPriorityFeePerGas: string
+  gasLimit: string
+  nonce: string
+}
+
+export const GAS_MODE_LABELS: Record<GasSettings['mode'], string> = {
+  auto: 'Auto',
+  slow: 'Slow',
+  standard: 'Standard',
+  fast: 'Fast',
+  custom: 'Custom',
+}
+
+export const DEFAULT_GAS_SETTINGS: GasSettings = {
+  mode: 'auto',
+  maxFeePerGas: '',
+  maxPriorityFeePerGas: '',
+  gasLimit: '',
+  nonce: '',
+}
+
+/**
+ * Fields passed through to the wallet with a transaction
+ * EIP-1559 fees and the legacy gas price are mutually exclusive
+ */
+export type TransactionOverrides = {
+  gas?: bigint
+  nonce?: number
+} & (
+  | { maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint; gasPrice?: undefined }
+  | { gasPrice?: bigint; maxFeePerGas?: undefined; maxPriorityFeePerGas?: undefined }
+)
+
+/**
+ * Lowest gas limit of any transaction
+ */
+const MIN_GAS_LIMIT = 21000n
+
+/**
+ * Parse a Gwei field
+ * @returns Wei, or undefined when empty or invalid
+ */
+function parseGwei(value: string): bigint | undefined {
+  if (!value.trim()) return undefined
+  try {
+    return parseUnits(value.trim(), 9)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Parse a non-negative integer field
+ * @returns Value, or undefined when empty or invalid
+ */
+function parseInteger(value: string): bigint | undefined {
+  return /^\d+$/.test(value.trim()) ? BigInt(value.trim()) : undefined
+}
+
+/**
+ * Resolve panel input into transaction overrides
+ * @param settings - Panel input
+ * @param oracle - Current oracle fees; without it tiers fall back to the wallet's fees
+ * @returns Overrides, or an error describing the first invalid field
+ */
+export function resolveGasOverrides(
+  settings: GasSettings,
+  oracle?: GasOracle
+): { overrides: TransactionOverrides; error?: string } {
+  let overrides: TransactionOverrides = {}
+  const isLegacy = oracle?.type === 'legacy'
+
+  if (settings.mode === 'auto') {
+    // Fees stay unset so the wallet picks them
+  } else if (settings.mode !== 'custom') {
+    const fees = oracle?.tiers[settings.mode]
+    if (fees && isLegacy) {
+      overrides = { gasPrice: fees.gasPrice }
+    } else if (fees) {
+      overrides = {
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      }
+    }
+  } else {
+    const maxFeePerGas = parseGwei(settings.maxFeePerGas)
+    if (maxFeePerGas === undefined || maxFeePerGas === 0n) {
+      return { overrides, error: isLegacy ? 'Enter a gas price' : 'Enter a max fee' }
+    }
+
+    if (isLegacy) {
+      overrides = { gasPrice: maxFeePerGas }
+    } else {
+      const maxPriorityFeePerGas = parseGwei(settings.maxPriorityFeePerGas)
+      if (maxPriorityFeePerGas === undefined) {
+        return { overrides, error: 'Enter a priority fee' }
+      }
+      if (maxPriorityFeePerGas > maxFeePerGas) {
+        return { overrides, error: 'Priority fee cannot exceed the max fee' }
+      }
+      overrides = { maxFeePerGas, maxPriorityFeePerGas }
+    }
+  }
+
+  if (settings.gasLimit.trim()) {
+    const gas = parseInteger(settings.gasLimit)
+    if (gas === undefined || gas < MIN_GAS_LIMIT) {
+      return { overrides, error: `Gas limit must be a whole number of at least ${MIN_GAS_LIMIT}` }
+    }
+    overrides.gas = gas
+  }
+
+  if (settings.nonce.trim()) {
+    const nonce = parseInteger(settings.nonce)
+    if (nonce === undefined || nonce > BigInt(Number.MAX_SAFE_INTEGER)) {
+      return { overrides, error: 'Nonce must be a whole number' }
+    }
+    overrides.nonce = Number(nonce)
+  }
+
+  return { overrides }
+}
+
+/**
+ * Flag overrides that are valid but likely to stall or fail
+ * @param overrides - Resolved overrides
+ * @param context - Current base fee, estimated gas and the account's next nonce
+ * @returns Warning messages
+ */
+export function getGasSettingsWarnings(
+  overrides: TransactionOverrides,
+  context: { baseFeePerGas?: bigint; estimatedGas?: bigint; pendingNonce?: number }
+): string[] {
+  const warnings: string[] = []
+  const { baseFeePerGas, estimatedGas, pendingNonce } = context
+  const feeCap = overrides.maxFeePerGas ?? overrides.gasPrice
+
+  if (feeCap !== undefined && baseFeePerGas !== undefined && feeCap < baseFeePerGas) {
+    warnings.push(
+      `Max fee is below the current base fee of ${formatGwei(baseFeePerGas)} Gwei, so the transaction will wait until fees drop`
+    )
+  }
+
+  if (overrides.gas !== undefined && estimatedGas !== undefined && overrides.gas < estimatedGas) {
+    warnings.push(
+      `Gas limit is below the estimate of ${estimatedGas.toString()}, so the transaction will likely run out of gas`
+    )
+  }
+
+  if (overrides.nonce !== undefined && pendingNonce !== undefined) {
+    if (overrides.nonce < pendingNonce) {
+      warnings.push(
+        `Nonce ${overrides.nonce} is already used; this replaces a pending transaction or will be rejected`
+      )
+    } else if (overrides.nonce > pendingNonce) {
+      warnings.push(
+        `Nonce is ahead of the next nonce (${pendingNonce}), so the transaction will wait for the gap to be filled`
+      )
+    }
+  }
+
+  return warnings
+}
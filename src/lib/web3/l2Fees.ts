@@ -0,0 +1,128 @@
+/**
+ * L2 Fee Models
+ *
+ * L1 data fee estimation for rollups, where posting calldata to L1 can cost
+ * more than L2 execution: the OP Stack GasPriceOracle predeploy and Arbitrum's
+ * NodeInterface
+ */
+
+import { decodeFunctionResult, encodeFunctionData, serializeTransaction } from 'viem'
+import type { Address, Hex, PublicClient } from 'viem'
+import { getContractAddress } from '../constants/contracts'
+import { GAS_PRICE_ORACLE_ABI } from '../../contracts/abis/GasPriceOracle'
+import { NODE_INTERFACE_ABI } from '../../contracts/abis/NodeInterface'
+
+/**
+ * How a chain charges for L1 data
+ */
+export type L2FeeModel = 'op-stack' | 'arbitrum'
+
+/**
+ * Transaction to estimate the L1 data fee of
+ */
+export interface L1FeeParams {
+  account?: Address
+  to: Address
+  data?: Hex
+  value?: bigint
+}
+
+/**
+ * L1 data component of a transaction's fee
+ * OP Stack charges it in wei on top of L2 gas; Arbitrum charges it as extra L2 gas
+ */
+export type L1FeeEstimate =
+  | { model: 'op-stack'; l1DataFee: bigint }
+  | { model: 'arbitrum'; gasEstimate: bigint; l1Gas: bigint }
+
+/**
+ * Get the L1 fee model of a chain
+ * @param chainId - Chain ID
+ * @returns Fee model, or undefined for chains without an L1 data fee
+ */
+export function getL2FeeModel(chainId: number): L2FeeModel | undefined {
+  if (getContractAddress('GAS_PRICE_ORACLE', chainId)) return 'op-stack'
+  if (getContractAddress('NODE_INTERFACE', chainId)) return 'arbitrum'
+  return undefined
+}
+
+/**
+ * Price the L1 data of a transaction on an OP Stack chain
+ * The oracle prices the unsigned serialized transaction and adds signature overhead
+ */
+async function estimateOpStackL1Fee(
+  client: PublicClient,
+  chainId: number,
+  oracle: Address,
+  { account, to, data, value }: L1FeeParams
+): Promise<L1FeeEstimate> {
+  const nonce = account ? await client.getTransactionCount({ address: account }) : 0
+
+  const serialized = serializeTransaction({
+    chainId,
+    type: 'eip1559',
+    nonce,
+    to,
+    data,
+    value,
+  })
+
+  const l1DataFee = await client.readContract({
+    address: oracle,
+    abi: GAS_PRICE_ORACLE_ABI,
+    functionName: 'getL1Fee',
+    args: [serialized],
+  })
+
+  return { model: 'op-stack', l1DataFee }
+}
+
+/**
+ * Split a transaction's Arbitrum gas estimate into execution and L1 components
+ */
+async function estimateArbitrumL1Fee(
+  client: PublicClient,
+  nodeInterface: Address,
+  { account, to, data, value }: L1FeeParams
+): Promise<L1FeeEstimate> {
+  const { data: result } = await client.call({
+    account,
+    to: nodeInterface,
+    data: encodeFunctionData({
+      abi: NODE_INTERFACE_ABI,
+      functionName: 'gasEstimateComponents',
+      args: [to, false, data ?? '0x'],
+    }),
+    value,
+  })
+  if (!result) throw new Error('NodeInterface returned no data')
+
+  const [gasEstimate, gasEstimateForL1] = decodeFunctionResult({
+    abi: NODE_INTERFACE_ABI,
+    functionName: 'gasEstimateComponents',
+    data: result,
+  })
+
+  return { model: 'arbitrum', gasEstimate, l1Gas: gasEstimateForL1 }
+}
+
+/**
+ * Estimate the L1 data component of a transaction's fee
+ * @param client - Public client for the chain
+ * @param chainId - Chain ID
+ * @param params - Transaction to estimate
+ * @returns L1 fee estimate, or undefined for chains without an L1 data fee
+ */
+export async function estimateL1Fee(
+  client: PublicClient,
+  chainId: number,
+  params: L1FeeParams
+): Promise<L1FeeEstimate | undefined> {
+  const oracle = getContractAddress('GAS_PRICE_ORACLE', chainId)
+  if (oracle) return estimateOpStackL1Fee(client, chainId, oracle as Address, params)
+
+  const nodeInterface = getContractAddress('NODE_INTERFACE', chainId)
+  if (nodeInterface) return estimateArbitrumL1Fee(client, nodeInterface as Address, params)
+
+  return undefined
+}
@@ -0,0 +1,121 @@
+/**
+ * Multi-Send Utilities
+ *
+ * Parse and validate address,amount lists for batch transfers
+ */
+
+import { getAddress } from 'viem'
+import type { Address } from 'viem'
+import {
+  formatTokenBalance,
+  hasInvalidChecksum,
+  isValidAddress,
+  validateTokenAmount,
+} from '../../utils/formatters'
+
+/**
+ * Maximum number of recipients in one batch
+ * Keeps a single disperse transaction well under the block gas limit
+ */
+export const MAX_MULTI_SEND_ROWS = 200
+
+/**
+ * One recipient line of a multi-send list
+ */
+export interface MultiSendRow {
+  /** 1-based line number in the pasted text */
+  line: number
+  address: string
+  amount: string
+  recipient?: Address
+  value?: bigint
+  error?: string
+}
+
+/**
+ * Validated multi-send list
+ */
+export interface MultiSendBatch {
+  rows: MultiSendRow[]
+  total: bigint
+  /** Problem with the list as a whole, such as the total exceeding the balance */
+  error?: string
+  isValid: boolean
+}
+
+/**
+ * Split pasted text or a CSV file into address,amount rows
+ * Accepts comma, semicolon, tab or space separators and skips blank lines,
+ * `#` comments and a leading header row
+ * @param text - Raw CSV text
+ * @returns Unvalidated rows
+ */
+export function parseMultiSendCsv(text: string): MultiSendRow[] {
+  const rows: MultiSendRow[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim()
+    if (!line || line.startsWith('#')) return
+
+    const [address = '', amount = ''] = line.split(/[,;\t ]+/).map((cell) => cell.trim())
+
+    // Header rows such as "address,amount"
+    if (rows.length === 0 && !address.startsWith('0x') && /address/i.test(address)) return
+
+    rows.push({ line: index + 1, address, amount })
+  })
+
+  return rows
+}
+
+/**
+ * Validate every row and the batch total
+ * @param rows - Parsed rows
+ * @param decimals - Decimals of the token being sent
+ * @param balance - Optional spendable balance in the smallest unit
+ * @returns Rows with parsed recipients and values, the total and any errors
+ */
+export function validateMultiSend(
+  rows: MultiSendRow[],
+  decimals: number,
+  balance?: bigint
+): MultiSendBatch {
+  let total = 0n
+
+  const validated = rows.map((row): MultiSendRow => {
+    if (hasInvalidChecksum(row.address)) {
+      return { ...row, error: 'Invalid address checksum' }
+    }
+    if (!isValidAddress(row.address)) {
+      return { ...row, error: 'Invalid address' }
+    }
+
+    if (!row.amount) {
+      return { ...row, error: 'Missing amount' }
+    }
+
+    const { amount, error } = validateTokenAmount(row.amount, decimals)
+    if (!amount || error) {
+      return { ...row, error: error ?? 'Invalid amount' }
+    }
+
+    total += amount
+    return { ...row, recipient: getAddress(row.address), value: amount }
+  })
+
+  let error: string | undefined
+  if (validated.length === 0) {
+    error = 'Add at least one recipient'
+  } else if (validated.length > MAX_MULTI_SEND_ROWS) {
+    error = `At most ${MAX_MULTI_SEND_ROWS} recipients per batch`
+  } else if (balance !== undefined && total > balance) {
+    error = `Total ${formatTokenBalance(total, decimals)} exceeds balance of ${formatTokenBalance(balance, decimals)}`
+  }
+
+  return {
+    rows: validated,
+    total,
+    error,
+    isValid: !error && validated.every((row) => !row.error),
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Payment Requests
+ *
+ * Build and parse EIP-681 `ethereum:` URIs for native and ERC20 payments
+ * See https://eips.ethereum.org/EIPS/eip-681
+ */
+
+import { getAddress } from 'viem'
+import type { Address } from 'viem'
+import { isValidAddress } from '../../utils/formatters'
+
+/**
+ * URL query parameter carrying a payment request into the app
+ */
+export const PAYMENT_REQUEST_PARAM = 'pay'
+
+/**
+ * Requested payment
+ */
+export interface PaymentRequest {
+  /** Recipient address or ENS name */
+  to: string
+  /** 'native' or the ERC20 token address */
+  asset: 'native' | Address
+  chainId?: number
+  /** Amount in the asset's smallest unit */
+  amount?: bigint
+}
+
+/**
+ * Raised when a URI is not a payment request this app can handle
+ */
+export class PaymentRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PaymentRequestError'
+  }
+}
+
+/**
+ * Parse an EIP-681 number, which may use scientific notation (e.g. 2.014e18)
+ * @param value - Number as written in the URI
+ * @returns Integer value
+ */
+function parseUriNumber(value: string): bigint {
+  const match = /^(\d+)(?:\.(\d+))?(?:e(\d+))?$/i.exec(value)
+  if (!match) throw new PaymentRequestError(`Invalid number: ${value}`)
+
+  const [, whole, fraction = '', exponent = '0'] = match
+  const shift = Number(exponent) - fraction.length
+  if (shift < 0) throw new PaymentRequestError(`Amount is not a whole number: ${value}`)
+
+  return BigInt(whole + fraction) * 10n ** BigInt(shift)
+}
+
+/**
+ * Build an EIP-681 URI for a payment request
+ * @param request - Payment to request
+ * @returns URI such as `ethereum:0xabc...@1?value=1e18`
+ */
+export function buildPaymentUri({ to, asset, chainId, amount }: PaymentRequest): string {
+  const chain = chainId ? `@${chainId}` : ''
+
+  if (asset === 'native') {
+    const query = amount !== undefined ? `?value=${amount}` : ''
+    return `ethereum:${to}${chain}${query}`
+  }
+
+  const params = new URLSearchParams({ address: to })
+  if (amount !== undefined) params.set('uint256', amount.toString())
+  return `ethereum:${asset}${chain}/transfer?${params}`
+}
+
+/**
+ * Parse an EIP-681 URI into a payment request
+ * Supports plain native payments and ERC20 `transfer` calls
+ * @param uri - URI starting with `ethereum:`
+ * @returns Parsed payment request
+ * @throws PaymentRequestError if the URI is malformed or requests another call
+ */
+export function parsePaymentUri(uri: string): PaymentRequest {
+  const match = /^ethereum:(?:pay-)?([^@/?]+)(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/i.exec(
+    uri.trim()
+  )
+  if (!match) throw new PaymentRequestError('Not an ethereum: payment link')
+
+  const [, target, chain, functionName, query = ''] = match
+  const params = new URLSearchParams(query)
+  const chainId = chain ? Number(chain) : undefined
+
+  if (!functionName) {
+    const value = params.get('value')
+    return {
+      to: isValidAddress(target) ? getAddress(target) : target,
+      asset: 'native',
+      chainId,
+      amount: value ? parseUriNumber(value) : undefined,
+    }
+  }
+
+  if (functionName !== 'transfer') {
+    throw new PaymentRequestError(`Unsupported payment function: ${functionName}`)
+  }
+  if (!isValidAddress(target)) {
+    throw new PaymentRequestError('Token must be given by contract address')
+  }
+
+  const recipient = params.get('address')
+  if (!recipient) throw new PaymentRequestError('Payment link has no recipient')
+
+  const amount = params.get('uint256')
+  return {
+    to: isValidAddress(recipient) ? getAddress(recipient) : recipient,
+    asset: getAddress(target),
+    chainId,
+    amount: amount ? parseUriNumber(amount) : undefined,
+  }
+}
+
+/**
+ * Build a link that opens a payment request in this app
+ * @param uri - EIP-681 URI
+ * @param baseUrl - App URL (e.g., window.location.origin)
+ * @returns App URL with the request in the `pay` query parameter
+ */
+export function buildPaymentRequestLink(uri: string, baseUrl: string): string {
+  const url = new URL(baseUrl)
+  url.searchParams.set(PAYMENT_REQUEST_PARAM, uri)
+  return url.toString()
+}
+
+/**
+ * Check whether text looks like an EIP-681 URI
+ * @param value - Text to check
+ * @returns True for values starting with `ethereum:`
+ */
+export function isPaymentUri(value: string): boolean {
+  return value.trim().toLowerCase().startsWith('ethereum:')
+}
@@ -0,0 +1,138 @@
+/**
+ * Price Service
+ *
+ * Pluggable USD price providers with a Chainlink on-chain implementation
+ */
+
+import { getPublicClient } from 'wagmi/actions'
+import { formatUnits } from 'viem'
+import type { Address } from 'viem'
+import { config } from './config'
+import { isTestnet } from './chains'
+import { PRICE_FEEDS, type PriceFeed } from '../constants/priceFeeds'
+import { CHAINLINK_AGGREGATOR_ABI } from '../../contracts/abis/ChainlinkAggregator'
+
+/**
+ * Asset identifier: the chain's native currency or an ERC20 address
+ */
+export type PriceAsset = 'native' | Address
+
+/**
+ * USD price for an asset
+ */
+export interface PriceQuote {
+  usd: number
+  updatedAt: number
+  isStale: boolean
+  source: string
+}
+
+/**
+ * Supplies USD prices
+ * Implement this to back prices with an API instead of on-chain feeds
+ */
+export interface PriceProvider {
+  name: string
+  getPrices: (chainId: number, assets: PriceAsset[]) => Promise<Record<string, PriceQuote>>
+}
+
+/**
+ * Extra time allowed past a feed's heartbeat before flagging it stale
+ * Covers block time and polling delay
+ */
+const STALENESS_GRACE = 10 * 60
+
+/**
+ * Get the key used for an asset in price maps
+ * @param asset - Native currency or token address
+ * @returns Lowercase key
+ */
+export function getPriceKey(asset: PriceAsset): string {
+  return asset.toLowerCase()
+}
+
+/**
+ * Find the Chainlink feed for an asset
+ * @param chainId - Chain ID
+ * @param asset - Native currency or token address
+ * @returns Feed or undefined when none is configured or the chain is a testnet
+ */
+export function getPriceFeed(chainId: number, asset: PriceAsset): PriceFeed | undefined {
+  if (isTestnet(chainId)) return undefined
+  const feeds = PRICE_FEEDS[chainId]
+  if (!feeds) return undefined
+  return asset === 'native' ? feeds.native : feeds.tokens[getPriceKey(asset)]
+}
+
+/**
+ * Create a provider that reads Chainlink aggregators on-chain
+ * All feeds for a chain are read in one multicall
+ * @returns Chainlink price provider
+ */
+export function createChainlinkPriceProvider(): PriceProvider {
+  return {
+    name: 'Chainlink',
+
+    async getPrices(chainId, assets) {
+      const client = getPublicClient(config, {
+        chainId: chainId as (typeof config)['chains'][number]['id'],
+      })
+      if (!client) return {}
+
+      const feeds = assets
+        .map((asset) => ({ asset, feed: getPriceFeed(chainId, asset) }))
+        .filter((entry): entry is { asset: PriceAsset; feed: PriceFeed } => !!entry.feed)
+      if (feeds.length === 0) return {}
+
+      const results = await client.multicall({
+        allowFailure: true,
+        contracts: feeds.flatMap(({ feed }) => [
+          { address: feed.address, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'latestRoundData' },
+          { address: feed.address, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'decimals' },
+        ]),
+      })
+
+      const now = Math.floor(Date.now() / 1000)
+      const prices: Record<string, PriceQuote> = {}
+
+      feeds.forEach(({ asset, feed }, index) => {
+        const round = results[index * 2]
+        const decimals = results[index * 2 + 1]
+        if (round.status !== 'success' || decimals.status !== 'success') return
+
+        const [, answer, , updatedAt] = round.result as readonly [bigint, bigint, bigint, bigint, bigint]
+        if (answer <= 0n) return
+
+        prices[getPriceKey(asset)] = {
+          usd: Number(formatUnits(answer, decimals.result as number)),
+          updatedAt: Number(updatedAt) * 1000,
+          isStale: now - Number(updatedAt) > feed.heartbeat + STALENESS_GRACE,
+          source: 'Chainlink',
+        }
+      })
+
+      return prices
+    },
+  }
+}
+
+/**
+ * Default provider used when none is supplied
+ */
+export const chainlinkPriceProvider = createChainlinkPriceProvider()
+
+/**
+ * Convert a token amount to USD
+ * @param amount - Amount in base units
+ * @param decimals - Token decimals
+ * @param quote - Price quote
+ * @returns USD value or undefined when no price is available
+ */
+export function toUsdValue(
+  amount: bigint,
+  decimals: number,
+  quote: PriceQuote | undefined
+): number | undefined {
+  if (!quote) return undefined
+  return Number(formatUnits(amount, decimals)) * quote.usd
+}
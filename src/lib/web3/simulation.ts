@@ -0,0 +1,113 @@
+/**
+ * Transaction Simulation
+ *
+ * Pre-flight eth_call simulation for contract writes and native transfers
+ */
+
+import { encodeFunctionData } from 'viem'
+import type { Abi, Address, Hex, PublicClient } from 'viem'
+import {
+  decodeRevertData,
+  getRevertData,
+  isRevertError,
+  type DecodedRevert,
+} from '../utils/errors'
+
+/**
+ * Outcome of a pre-flight simulation
+ */
+export type SimulationResult =
+  | { status: 'success' }
+  | { status: 'reverted'; revert: DecodedRevert }
+  | { status: 'unavailable'; error: Error }
+
+/**
+ * Contract write to simulate
+ */
+export interface SimulateWriteParams {
+  account: Address
+  address: Address
+  abi: Abi
+  functionName: string
+  args?: readonly unknown[]
+  value?: bigint
+}
+
+/**
+ * Simulate a contract write with eth_call against the pending block
+ * @param client - Public client for the target chain
+ * @param params - Call to simulate
+ * @returns Success, decoded revert, or unavailable when the RPC call itself failed
+ */
+export async function simulateWrite(
+  client: PublicClient,
+  { account, address, abi, functionName, args, value }: SimulateWriteParams
+): Promise<SimulationResult> {
+  let data
+  try {
+    data = encodeFunctionData({ abi, functionName, args })
+  } catch (error) {
+    return {
+      status: 'reverted',
+      revert: { reason: `Invalid call: ${(error as Error).message}` },
+    }
+  }
+
+  return simulateCall(client, { account, to: address, data, value }, abi)
+}
+
+/**
+ * Native transfer to simulate
+ */
+export interface SimulateTransferParams {
+  account: Address
+  to: Address
+  value: bigint
+}
+
+/**
+ * Simulate a native transfer with eth_call against the pending block
+ * Catches recipients that reject plain transfers, such as contracts without a payable fallback
+ * @param client - Public client for the target chain
+ * @param params - Transfer to simulate
+ * @returns Success, decoded revert, or unavailable when the RPC call itself failed
+ */
+export function simulateTransfer(
+  client: PublicClient,
+  { account, to, value }: SimulateTransferParams
+): Promise<SimulationResult> {
+  return simulateCall(client, { account, to, value })
+}
+
+/**
+ * Run an eth_call and classify the outcome
+ * @param abi - ABI used to decode custom errors
+ */
+async function simulateCall(
+  client: PublicClient,
+  { account, to, data, value }: { account: Address; to: Address; data?: Hex; value?: bigint },
+  abi?: Abi
+): Promise<SimulationResult> {
+  try {
+    await client.call({
+      account,
+      to,
+      data,
+      value,
+      blockTag: 'pending',
+    })
+    return { status: 'success' }
+  } catch (error) {
+    if (!isRevertError(error)) {
+      return { status: 'unavailable', error: error as Error }
+    }
+
+    const revertData = getRevertData(error)
+    return {
+      status: 'reverted',
+      revert: revertData
+        ? decodeRevertData(revertData, abi)
+        : { reason: 'Execution reverted without a reason' },
+    }
+  }
+}
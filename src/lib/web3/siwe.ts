@@ -0,0 +1,147 @@
+/**
+ * Sign-In With Ethereum
+ *
+ * EIP-4361 message construction and pluggable signature verification
+ */
+
+import { getPublicClient } from 'wagmi/actions'
+import { hashMessage, isAddressEqual, recoverMessageAddress } from 'viem'
+import type { Address, Hex, PublicClient } from 'viem'
+import {
+  createSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+} from 'viem/siwe'
+import { config } from './config'
+import { ERC1271_ABI, ERC1271_MAGIC_VALUE } from '../../contracts/abis/ERC1271'
+
+/**
+ * Default session lifetime (24 hours)
+ */
+export const SIWE_SESSION_DURATION = 24 * 60 * 60 * 1000
+
+/**
+ * Verifies sign-in messages and issues nonces
+ * Implement this against a backend to move verification server-side
+ */
+export interface SiweVerifier {
+  getNonce: (address: Address) => Promise<string>
+  verify: (params: { message: string; signature: Hex }) => Promise<boolean>
+  signOut?: () => Promise<void>
+}
+
+/**
+ * Build an EIP-4361 message for the current page
+ * @param params - Signer, chain, nonce and expiry
+ * @returns Message text to sign
+ */
+export function buildSiweMessage({
+  address,
+  chainId,
+  nonce,
+  statement = 'Sign in to prove you own this wallet.',
+  issuedAt = new Date(),
+  expirationTime = new Date(issuedAt.getTime() + SIWE_SESSION_DURATION),
+}: {
+  address: Address
+  chainId: number
+  nonce: string
+  statement?: string
+  issuedAt?: Date
+  expirationTime?: Date
+}): string {
+  return createSiweMessage({
+    address,
+    chainId,
+    domain: window.location.host,
+    uri: window.location.origin,
+    version: '1',
+    nonce,
+    statement,
+    issuedAt,
+    expirationTime,
+  })
+}
+
+/**
+ * Verify a personal_sign signature for an EOA or an EIP-1271 contract wallet
+ * @param client - Public client for the chain the message was signed on
+ * @param params - Signer address, message and signature
+ * @returns True if the signature is valid for the address
+ */
+export async function verifyMessageSignature(
+  client: PublicClient,
+  { address, message, signature }: { address: Address; message: string; signature: Hex }
+): Promise<boolean> {
+  const code = await client.getCode({ address })
+
+  // Contract wallets validate signatures themselves
+  if (code && code !== '0x') {
+    try {
+      const result = await client.readContract({
+        address,
+        abi: ERC1271_ABI,
+        functionName: 'isValidSignature',
+        args: [hashMessage(message), signature],
+      })
+      return result.toLowerCase() === ERC1271_MAGIC_VALUE
+    } catch {
+      return false
+    }
+  }
+
+  const recovered = await recoverMessageAddress({ message, signature })
+  return isAddressEqual(recovered, address)
+}
+
+/**
+ * Create an in-browser verifier
+ * Nonces are single-use and only live in memory, so this is suited to tests and demos
+ * @returns Local SIWE verifier
+ */
+export function createLocalSiweVerifier(): SiweVerifier {
+  const issuedNonces = new Set<string>()
+
+  return {
+    async getNonce() {
+      const nonce = generateSiweNonce()
+      issuedNonces.add(nonce)
+      return nonce
+    },
+
+    async verify({ message, signature }) {
+      const fields = parseSiweMessage(message)
+      if (!fields.address || !fields.chainId || !fields.nonce) return false
+
+      // Each nonce may be used once
+      if (!issuedNonces.delete(fields.nonce)) return false
+
+      if (
+        !validateSiweMessage({
+          message: fields,
+          domain: window.location.host,
+          nonce: fields.nonce,
+        })
+      ) {
+        return false
+      }
+
+      const client = getPublicClient(config, {
+        chainId: fields.chainId as (typeof config)['chains'][number]['id'],
+      })
+      if (!client) return false
+
+      return verifyMessageSignature(client as PublicClient, {
+        address: fields.address,
+        message,
+        signature,
+      })
+    },
+  }
+}
+
+/**
+ * Default verifier used when none is supplied
+ */
+export const localSiweVerifier = createLocalSiweVerifier()
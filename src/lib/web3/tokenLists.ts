@@ -0,0 +1,190 @@
+/**
+ * Token Lists
+ *
+ * Validation and merging of Uniswap token-list-format JSON
+ * See https://github.com/Uniswap/token-lists for the schema
+ */
+
+import { getAddress, isAddress } from 'viem'
+import type { TokenInfo, TokenList } from '../../types/web3'
+
+/**
+ * Schema limits from the token-list specification
+ */
+const MAX_TOKENS = 10_000
+const MAX_LIST_NAME_LENGTH = 30
+const MAX_TOKEN_NAME_LENGTH = 60
+const MAX_SYMBOL_LENGTH = 20
+const MAX_REPORTED_ISSUES = 10
+
+/**
+ * Raised when a token list does not match the schema
+ */
+export class TokenListValidationError extends Error {
+  issues: string[]
+
+  constructor(issues: string[]) {
+    super(`Invalid token list: ${issues.slice(0, 3).join('; ')}`)
+    this.name = 'TokenListValidationError'
+    this.issues = issues
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isBoundedString(value: unknown, min: number, max: number): value is string {
+  return typeof value === 'string' && value.length >= min && value.length <= max
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Validate a single token entry
+ * @param token - Raw token entry
+ * @param path - Location used in issue messages
+ * @returns Issues found
+ */
+function validateToken(token: unknown, path: string): string[] {
+  if (!isRecord(token)) return [`${path} must be an object`]
+
+  const issues: string[] = []
+
+  if (!isNonNegativeInteger(token.chainId) || token.chainId < 1) {
+    issues.push(`${path}.chainId must be a positive integer`)
+  }
+  if (typeof token.address !== 'string' || !isAddress(token.address, { strict: false })) {
+    issues.push(`${path}.address must be a valid address`)
+  }
+  if (!isBoundedString(token.name, 1, MAX_TOKEN_NAME_LENGTH)) {
+    issues.push(`${path}.name must be 1-${MAX_TOKEN_NAME_LENGTH} characters`)
+  }
+  if (!isBoundedString(token.symbol, 1, MAX_SYMBOL_LENGTH)) {
+    issues.push(`${path}.symbol must be 1-${MAX_SYMBOL_LENGTH} characters`)
+  }
+  if (!isNonNegativeInteger(token.decimals) || token.decimals > 255) {
+    issues.push(`${path}.decimals must be an integer between 0 and 255`)
+  }
+  if (token.logoURI !== undefined && typeof token.logoURI !== 'string') {
+    issues.push(`${path}.logoURI must be a string`)
+  }
+  if (
+    token.tags !== undefined &&
+    (!Array.isArray(token.tags) || token.tags.some((tag) => typeof tag !== 'string'))
+  ) {
+    issues.push(`${path}.tags must be an array of strings`)
+  }
+
+  return issues
+}
+
+/**
+ * Validate parsed JSON against the token-list schema
+ * @param data - Parsed JSON
+ * @returns The token list with checksummed addresses
+ * @throws TokenListValidationError if the data does not match the schema
+ */
+export function validateTokenList(data: unknown): TokenList {
+  if (!isRecord(data)) {
+    throw new TokenListValidationError(['Token list must be a JSON object'])
+  }
+
+  const issues: string[] = []
+
+  if (!isBoundedString(data.name, 1, MAX_LIST_NAME_LENGTH)) {
+    issues.push(`name must be 1-${MAX_LIST_NAME_LENGTH} characters`)
+  }
+  if (typeof data.timestamp !== 'string' || Number.isNaN(Date.parse(data.timestamp))) {
+    issues.push('timestamp must be an ISO 8601 date-time')
+  }
+
+  const version = data.version
+  if (
+    !isRecord(version) ||
+    !isNonNegativeInteger(version.major) ||
+    !isNonNegativeInteger(version.minor) ||
+    !isNonNegativeInteger(version.patch)
+  ) {
+    issues.push('version must have integer major, minor and patch')
+  }
+
+  if (!Array.isArray(data.tokens) || data.tokens.length === 0) {
+    issues.push('tokens must be a non-empty array')
+  } else if (data.tokens.length > MAX_TOKENS) {
+    issues.push(`tokens must contain at most ${MAX_TOKENS} entries`)
+  } else {
+    const seen = new Set<string>()
+
+    data.tokens.forEach((token, index) => {
+      const tokenIssues = validateToken(token, `tokens[${index}]`)
+      issues.push(...tokenIssues)
+      if (tokenIssues.length > 0) return
+
+      const { chainId, address } = token as TokenInfo
+      const key = getTokenKey(chainId, address)
+      if (seen.has(key)) {
+        issues.push(`tokens[${index}] duplicates ${address} on chain ${chainId}`)
+      }
+      seen.add(key)
+    })
+  }
+
+  if (issues.length > 0) {
+    throw new TokenListValidationError(issues.slice(0, MAX_REPORTED_ISSUES))
+  }
+
+  const list = data as unknown as TokenList
+  return {
+    ...list,
+    tokens: list.tokens.map((token) => ({ ...token, address: getAddress(token.address) })),
+  }
+}
+
+/**
+ * Parse and validate token list JSON text
+ * @param json - Raw file contents
+ * @returns Validated token list
+ */
+export function parseTokenList(json: string): TokenList {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new TokenListValidationError(['File is not valid JSON'])
+  }
+  return validateTokenList(data)
+}
+
+/**
+ * Get a unique key for a token
+ * @param chainId - Chain ID
+ * @param address - Token address
+ * @returns Key in the form `chainId:address`
+ */
+export function getTokenKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`
+}
+
+/**
+ * Merge token lists by priority
+ * When several lists contain the same token, the entry from the earliest list wins
+ * @param lists - Token lists, highest priority first
+ * @returns Deduplicated tokens
+ */
+export function mergeTokenLists(lists: TokenList[]): TokenInfo[] {
+  const merged = new Map<string, TokenInfo>()
+
+  for (const list of lists) {
+    for (const token of list.tokens) {
+      const key = getTokenKey(token.chainId, token.address)
+      if (!merged.has(key)) {
+        merged.set(key, token)
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+}
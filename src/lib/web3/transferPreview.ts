@@ -0,0 +1,201 @@
+/**
+ * Transfer Preview
+ *
+ * Simulate a native or ERC20 transfer and work out its fee and balance changes
+ */
+
+import { encodeFunctionData } from 'viem'
+import type { Abi, Address, Hex, PublicClient } from 'viem'
+import { ERC20_ABI } from '../../contracts/abis/ERC20'
+import { simulateWrite, type SimulationResult } from './simulation'
+import { estimateL1Fee, type L1FeeEstimate } from './l2Fees'
+import type { TransactionOverrides } from './gasSettings'
+
+/**
+ * Transfer to preview
+ */
+export interface TransferPreviewParams {
+  from: Address
+  to: Address
+  /** 'native' or the ERC20 token address */
+  asset: 'native' | Address
+  amount: bigint
+  /** Gas limit and fee overrides the transfer will be sent with */
+  overrides?: TransactionOverrides
+}
+
+/**
+ * Balance of one account before and after the transfer
+ */
+export interface BalanceChange {
+  before: bigint
+  after: bigint
+}
+
+/**
+ * Expected outcome of a transfer
+ */
+export interface TransferPreview {
+  simulation: SimulationResult
+  /** Gas limit override, else estimated gas; undefined when estimation failed */
+  gas?: bigint
+  /** Upper bound of the network fee in the native currency, including any L1 data fee */
+  fee?: bigint
+  /** L2 execution part of the fee (OP Stack and Arbitrum only) */
+  l2ExecutionFee?: bigint
+  /** L1 data part of the fee (OP Stack and Arbitrum only) */
+  l1DataFee?: bigint
+  /** Balances of the transferred asset */
+  sender: BalanceChange
+  recipient: BalanceChange
+  /** Native balance of the sender, which pays the fee */
+  senderNative: BalanceChange
+}
+
+/**
+ * Read an account's balance of an asset
+ */
+async function getAssetBalance(
+  client: PublicClient,
+  asset: 'native' | Address,
+  account: Address
+): Promise<bigint> {
+  if (asset === 'native') {
+    return client.getBalance({ address: account })
+  }
+
+  return (await client.readContract({
+    address: asset,
+    abi: ERC20_ABI as Abi,
+    functionName: 'balanceOf',
+    args: [account],
+  })) as bigint
+}
+
+/**
+ * Split a rollup fee into L2 execution and L1 data
+ * OP Stack charges the L1 data fee on top of L2 gas; Arbitrum includes it in the gas estimate
+ */
+function splitRollupFee(
+  gas: bigint,
+  feePerGas: bigint,
+  l1Fee?: L1FeeEstimate
+): { fee: bigint; l2ExecutionFee?: bigint; l1DataFee?: bigint } {
+  const executionFee = gas * feePerGas
+
+  if (l1Fee?.model === 'op-stack') {
+    return {
+      fee: executionFee + l1Fee.l1DataFee,
+      l2ExecutionFee: executionFee,
+      l1DataFee: l1Fee.l1DataFee,
+    }
+  }
+
+  if (l1Fee?.model === 'arbitrum') {
+    const l1Gas = l1Fee.l1Gas < gas ? l1Fee.l1Gas : gas
+    return {
+      fee: executionFee,
+      l2ExecutionFee: (gas - l1Gas) * feePerGas,
+      l1DataFee: l1Gas * feePerGas,
+    }
+  }
+
+  return { fee: executionFee }
+}
+
+/**
+ * Simulate a transfer against the pending block and estimate its fee
+ * Balances after the transfer assume it succeeds as simulated
+ * @param client - Public client for the active chain
+ * @param params - Transfer to preview
+ * @returns Simulation outcome, fee and before/after balances
+ */
+export async function previewTransfer(
+  client: PublicClient,
+  { from, to, asset, amount, overrides }: TransferPreviewParams
+): Promise<TransferPreview> {
+  const call: { account: Address; to: Address; data?: Hex; value?: bigint } =
+    asset === 'native'
+      ? { account: from, to, value: amount }
+      : {
+          account: from,
+          to: asset,
+          data: encodeFunctionData({
+            abi: ERC20_ABI as Abi,
+            functionName: 'transfer',
+            args: [to, amount],
+          }),
+        }
+  const chainId = client.chain?.id
+
+  const [
+    simulation,
+    gas,
+    feePerGas,
+    l1Fee,
+    senderBalance,
+    recipientBalance,
+    senderNativeBalance,
+  ] = await Promise.all([
+    asset === 'native'
+      ? client
+          .call({ ...call, blockTag: 'pending' })
+          .then((): SimulationResult => ({ status: 'success' }))
+          .catch((error): SimulationResult => ({ status: 'unavailable', error }))
+      : simulateWrite(client, {
+          account: from,
+          address: asset,
+          abi: ERC20_ABI as Abi,
+          functionName: 'transfer',
+          args: [to, amount],
+        }),
+    overrides?.gas ?? client.estimateGas(call).catch(() => undefined),
+    // Legacy chains have no EIP-1559 fees
+    overrides?.maxFeePerGas ??
+      overrides?.gasPrice ??
+      client
+        .estimateFeesPerGas()
+        .then((fees) => fees.maxFeePerGas)
+        .catch(() => client.getGasPrice())
+        .catch(() => undefined),
+    chainId !== undefined
+      ? estimateL1Fee(client, chainId, call).catch(() => undefined)
+      : undefined,
+    getAssetBalance(client, asset, from),
+    getAssetBalance(client, asset, to),
+    client.getBalance({ address: from }),
+  ])
+
+  const fees =
+    gas !== undefined && feePerGas !== undefined
+      ? splitRollupFee(gas, feePerGas, l1Fee)
+      : undefined
+  const fee = fees?.fee
+  const isSelfTransfer = from.toLowerCase() === to.toLowerCase()
+  const feeCost = fee ?? 0n
+
+  const senderAfter = isSelfTransfer ? senderBalance : senderBalance - amount
+  const senderNativeAfter =
+    senderNativeBalance - feeCost - (asset === 'native' && !isSelfTransfer ? amount : 0n)
+
+  return {
+    simulation,
+    gas,
+    fee,
+    l2ExecutionFee: fees?.l2ExecutionFee,
+    l1DataFee: fees?.l1DataFee,
+    sender: {
+      before: senderBalance,
+      after: asset === 'native' ? senderNativeAfter : senderAfter,
+    },
+    recipient: {
+      before: recipientBalance,
+      after: isSelfTransfer
+        ? asset === 'native'
+          ? senderNativeAfter
+          : senderAfter
+        : recipientBalance + amount,
+    },
+    senderNative: { before: senderNativeBalance, after: senderNativeAfter },
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Address Book State Management
+ *
+ * Zustand store for saved contacts and recent transfer recipients
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { Address } from 'viem'
+import type { AddressBookEntry, RecentRecipient } from '../types/web3'
+
+/**
+ * Maximum number of recent recipients kept per chain
+ */
+const MAX_RECENT_RECIPIENTS = 10
+
+/**
+ * Build the key identifying a contact
+ * @param address - Contact address
+ * @param chainId - Chain the contact is scoped to, if any
+ * @returns Contact key (e.g., "1:0xabc..." or "*:0xabc...")
+ */
+export function getContactKey(address: Address, chainId?: number): string {
+  return `${chainId ?? '*'}:${address.toLowerCase()}`
+}
+
+interface AddressBookStore {
+  // State
+  contacts: AddressBookEntry[]
+  recents: RecentRecipient[]
+
+  // Actions
+  saveContact: (contact: Omit<AddressBookEntry, 'createdAt'>, previousKey?: string) => void
+  removeContact: (key: string) => void
+  addRecent: (address: Address, chainId: number) => void
+  clearRecents: (chainId: number) => void
+}
+
+/**
+ * Address book store with persistence
+ */
+export const useAddressBookStore = create<AddressBookStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      contacts: [],
+      recents: [],
+
+      // Add a contact, or update the one at previousKey (or with the same key)
+      saveContact: (contact, previousKey) =>
+        set((state) => {
+          const key = getContactKey(contact.address, contact.chainId)
+          const existing = state.contacts.find(
+            (entry) => getContactKey(entry.address, entry.chainId) === (previousKey ?? key)
+          )
+          const others = state.contacts.filter((entry) => {
+            const entryKey = getContactKey(entry.address, entry.chainId)
+            return entryKey !== key && entryKey !== previousKey
+          })
+
+          return {
+            contacts: [
+              ...others,
+              { ...contact, createdAt: existing?.createdAt ?? Date.now() },
+            ].sort((a, b) => a.label.localeCompare(b.label)),
+          }
+        }),
+
+      // Remove a contact
+      removeContact: (key) =>
+        set((state) => ({
+          contacts: state.contacts.filter(
+            (entry) => getContactKey(entry.address, entry.chainId) !== key
+          ),
+        })),
+
+      // Move a recipient to the front of the chain's recent list
+      addRecent: (address, chainId) =>
+        set((state) => {
+          const matches = (recent: RecentRecipient) =>
+            recent.chainId === chainId && recent.address.toLowerCase() === address.toLowerCase()
+          const previous = state.recents.find(matches)
+          const others = state.recents.filter((recent) => !matches(recent))
+          const forChain = others.filter((recent) => recent.chainId === chainId)
+          const dropped = new Set(forChain.slice(MAX_RECENT_RECIPIENTS - 1))
+
+          return {
+            recents: [
+              { address, chainId, lastUsedAt: Date.now(), count: (previous?.count ?? 0) + 1 },
+              ...others.filter((recent) => !dropped.has(recent)),
+            ],
+          }
+        }),
+
+      // Forget the chain's recent recipients
+      clearRecents: (chainId) =>
+        set((state) => ({
+          recents: state.recents.filter((recent) => recent.chainId !== chainId),
+        })),
+    }),
+    {
+      name: 'address-book-storage',
+      partialize: (state) => ({
+        contacts: state.contacts,
+        recents: state.recents,
+      }),
+    }
+  )
+)
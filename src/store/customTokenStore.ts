@@ -0,0 +1,60 @@
+/**
+ * Custom Token State Management
+ *
+ * Zustand store for ERC20 tokens imported by address
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { Address } from 'viem'
+import type { TokenInfo } from '../types/web3'
+
+interface CustomTokenStore {
+  // State
+  tokens: Record<number, TokenInfo[]>
+
+  // Actions
+  addToken: (token: TokenInfo) => void
+  removeToken: (chainId: number, address: Address) => void
+}
+
+/**
+ * Custom token store with persistence
+ * Tokens are kept per chain and deduplicated by address
+ */
+export const useCustomTokenStore = create<CustomTokenStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      tokens: {},
+
+      // Add or update an imported token
+      addToken: (token) =>
+        set((state) => {
+          const existing = (state.tokens[token.chainId] ?? []).filter(
+            (t) => t.address.toLowerCase() !== token.address.toLowerCase()
+          )
+          return {
+            tokens: { ...state.tokens, [token.chainId]: [...existing, token] },
+          }
+        }),
+
+      // Remove an imported token
+      removeToken: (chainId, address) =>
+        set((state) => ({
+          tokens: {
+            ...state.tokens,
+            [chainId]: (state.tokens[chainId] ?? []).filter(
+              (t) => t.address.toLowerCase() !== address.toLowerCase()
+            ),
+          },
+        })),
+    }),
+    {
+      name: 'custom-token-storage',
+      partialize: (state) => ({
+        tokens: state.tokens,
+      }),
+    }
+  )
+)
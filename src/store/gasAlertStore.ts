@@ -0,0 +1,80 @@
+/**
+ * Gas Alert State Management
+ *
+ * Zustand store for per-chain base fee alerts
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { GasAlert } from '../types/web3'
+import { createBigIntStorage } from './storage'
+
+interface GasAlertStore {
+  // State
+  alerts: GasAlert[]
+
+  // Actions
+  addAlert: (chainId: number, threshold: bigint) => void
+  removeAlert: (id: string) => void
+  setEnabled: (id: string, enabled: boolean) => void
+  setArmed: (id: string, armed: boolean) => void
+}
+
+/**
+ * Gas alert store with persistence
+ */
+export const useGasAlertStore = create<GasAlertStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      alerts: [],
+
+      // Add an armed alert
+      addAlert: (chainId, threshold) =>
+        set((state) => ({
+          alerts: [
+            ...state.alerts,
+            {
+              id: `${chainId}-${Date.now()}`,
+              chainId,
+              threshold,
+              enabled: true,
+              armed: true,
+              createdAt: Date.now(),
+            },
+          ],
+        })),
+
+      // Remove an alert
+      removeAlert: (id) =>
+        set((state) => ({
+          alerts: state.alerts.filter((alert) => alert.id !== id),
+        })),
+
+      // Pause or resume an alert; resuming re-arms it
+      setEnabled: (id, enabled) =>
+        set((state) => ({
+          alerts: state.alerts.map((alert) =>
+            alert.id === id ? { ...alert, enabled, armed: enabled || alert.armed } : alert
+          ),
+        })),
+
+      // Disarm after firing, or re-arm once the base fee has recovered
+      setArmed: (id, armed) =>
+        set((state) => ({
+          alerts: state.alerts.map((alert) =>
+            alert.id === id
+              ? { ...alert, armed, lastTriggeredAt: armed ? alert.lastTriggeredAt : Date.now() }
+              : alert
+          ),
+        })),
+    }),
+    {
+      name: 'gas-alert-storage',
+      storage: createBigIntStorage(),
+      partialize: (state) => ({
+        alerts: state.alerts,
+      }),
+    }
+  )
+)
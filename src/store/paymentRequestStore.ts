@@ -0,0 +1,32 @@
+/**
+ * Payment Request State Management
+ *
+ * Zustand store for an incoming EIP-681 payment request waiting to prefill the transfer form
+ */
+
+import { create } from 'zustand'
+import type { PaymentRequest } from '../lib/web3/paymentRequests'
+
+interface PaymentRequestStore {
+  // State
+  request?: PaymentRequest
+
+  // Actions
+  setRequest: (request: PaymentRequest) => void
+  clearRequest: () => void
+}
+
+/**
+ * Payment request store
+ * Not persisted, since a request should only be applied once
+ */
+export const usePaymentRequestStore = create<PaymentRequestStore>()((set) => ({
+  // Initial state
+  request: undefined,
+
+  // Queue a request for the transfer form
+  setRequest: (request) => set({ request }),
+
+  // Drop the request once applied or dismissed
+  clearRequest: () => set({ request: undefined }),
+}))
@@ -0,0 +1,43 @@
+/**
+ * Session State Management
+ *
+ * Zustand store for persisting Sign-In With Ethereum sessions
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { SiweSession } from '../types/web3'
+
+interface SessionStore {
+  // State
+  session?: SiweSession
+
+  // Actions
+  setSession: (session: SiweSession) => void
+  clearSession: () => void
+}
+
+/**
+ * Session store with persistence
+ * Persists the signed-in session to localStorage until it expires or the user signs out
+ */
+export const useSessionStore = create<SessionStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      session: undefined,
+
+      // Store a verified session
+      setSession: (session) => set({ session }),
+
+      // Clear session data
+      clearSession: () => set({ session: undefined }),
+    }),
+    {
+      name: 'siwe-session-storage',
+      partialize: (state) => ({
+        session: state.session,
+      }),
+    }
+  )
+)
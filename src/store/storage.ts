@@ -0,0 +1,41 @@
+/**
+ * Persisted Storage Helpers
+ *
+ * Shared storage adapters for Zustand persist middleware
+ */
+
+import { createJSONStorage } from 'zustand/middleware'
+
+/**
+ * Serialize bigint values as tagged strings
+ * JSON.stringify throws on bigint, so wei amounts need an explicit encoding
+ */
+function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? { __bigint: value.toString() } : value
+}
+
+/**
+ * Restore bigint values written by bigintReplacer
+ */
+function bigintReviver(_key: string, value: unknown): unknown {
+  if (
+    value &&
+    typeof value === 'object' &&
+    '__bigint' in value &&
+    typeof (value as { __bigint: unknown }).__bigint === 'string'
+  ) {
+    return BigInt((value as { __bigint: string }).__bigint)
+  }
+  return value
+}
+
+/**
+ * localStorage adapter that round-trips bigint values
+ * Use for stores holding balances, gas values or other wei amounts
+ */
+export function createBigIntStorage<S>() {
+  return createJSONStorage<S>(() => localStorage, {
+    replacer: bigintReplacer,
+    reviver: bigintReviver,
+  })
+}
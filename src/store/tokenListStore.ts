@@ -0,0 +1,88 @@
+/**
+ * Token List State Management
+ *
+ * Zustand store for user-supplied token lists and their priority
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { TokenList } from '../types/web3'
+
+/**
+ * User-supplied token list entry
+ */
+export interface TokenListEntry {
+  list: TokenList
+  enabled: boolean
+  addedAt: number
+}
+
+interface TokenListStore {
+  // State (highest priority first)
+  lists: TokenListEntry[]
+
+  // Actions
+  addList: (list: TokenList) => void
+  removeList: (name: string) => void
+  toggleList: (name: string) => void
+  moveList: (name: string, direction: 'up' | 'down') => void
+}
+
+/**
+ * Token list store with persistence
+ * Lists are identified by name; importing a list with an existing name replaces it in place
+ */
+export const useTokenListStore = create<TokenListStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      lists: [],
+
+      // Add a list with the highest priority, or replace one with the same name
+      addList: (list) =>
+        set((state) => {
+          const entry: TokenListEntry = { list, enabled: true, addedAt: Date.now() }
+          const index = state.lists.findIndex((existing) => existing.list.name === list.name)
+          if (index === -1) {
+            return { lists: [entry, ...state.lists] }
+          }
+
+          const lists = [...state.lists]
+          lists[index] = entry
+          return { lists }
+        }),
+
+      // Remove a list
+      removeList: (name) =>
+        set((state) => ({
+          lists: state.lists.filter((entry) => entry.list.name !== name),
+        })),
+
+      // Enable or disable a list without removing it
+      toggleList: (name) =>
+        set((state) => ({
+          lists: state.lists.map((entry) =>
+            entry.list.name === name ? { ...entry, enabled: !entry.enabled } : entry
+          ),
+        })),
+
+      // Raise or lower a list's priority
+      moveList: (name, direction) =>
+        set((state) => {
+          const index = state.lists.findIndex((entry) => entry.list.name === name)
+          const target = direction === 'up' ? index - 1 : index + 1
+          if (index === -1 || target < 0 || target >= state.lists.length) return state
+
+          const lists = [...state.lists]
+          ;[lists[index], lists[target]] = [lists[target], lists[index]]
+          return { lists }
+        }),
+    }),
+    {
+      name: 'token-list-storage',
+      partialize: (state) => ({
+        lists: state.lists,
+      }),
+    }
+  )
+)
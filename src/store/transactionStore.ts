@@ -0,0 +1,145 @@
+/**
+ * Transaction History State Management
+ *
+ * Zustand store for recording submitted transactions per address and chain
+ */
+
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { Address, Hash } from 'viem'
+import type { Transaction, TransactionReceipt } from '../types/web3'
+import { createBigIntStorage } from './storage'
+
+/**
+ * Maximum number of transactions kept per address/chain pair
+ */
+const MAX_HISTORY_LENGTH = 100
+
+/**
+ * Build the history key for an address on a chain
+ * @param address - Wallet address
+ * @param chainId - Chain ID
+ * @returns Storage key (e.g., "1:0xabc...")
+ */
+export function getHistoryKey(address: Address, chainId: number): string {
+  return `${chainId}:${address.toLowerCase()}`
+}
+
+interface TransactionStore {
+  // State
+  history: Record<string, Transaction[]>
+
+  // Actions
+  addTransaction: (chainId: number, transaction: Transaction) => void
+  updateTransaction: (hash: Hash, updates: Partial<Transaction>) => void
+  applyReceipt: (
+    receipt: Pick<
+      TransactionReceipt,
+      'transactionHash' | 'status' | 'gasUsed' | 'effectiveGasPrice' | 'blockNumber'
+    >
+  ) => void
+  replaceTransaction: (chainId: number, hash: Hash, replacement: Transaction) => void
+  clearHistory: (address: Address, chainId: number) => void
+}
+
+/**
+ * Transaction history store with persistence
+ * Persists submitted transactions to localStorage, newest first
+ */
+export const useTransactionStore = create<TransactionStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      history: {},
+
+      // Record a newly submitted transaction
+      addTransaction: (chainId, transaction) =>
+        set((state) => {
+          const key = getHistoryKey(transaction.from, chainId)
+          const existing = (state.history[key] || []).filter(
+            (tx) => tx.hash !== transaction.hash
+          )
+
+          return {
+            history: {
+              ...state.history,
+              [key]: [transaction, ...existing].slice(0, MAX_HISTORY_LENGTH),
+            },
+          }
+        }),
+
+      // Patch a recorded transaction wherever it lives
+      updateTransaction: (hash, updates) =>
+        set((state) => {
+          const history: Record<string, Transaction[]> = {}
+
+          for (const [key, transactions] of Object.entries(state.history)) {
+            history[key] = transactions.map((tx) =>
+              tx.hash === hash ? { ...tx, ...updates } : tx
+            )
+          }
+
+          return { history }
+        }),
+
+      // Settle a transaction from its receipt
+      applyReceipt: (receipt) =>
+        set((state) => {
+          const history: Record<string, Transaction[]> = {}
+
+          for (const [key, transactions] of Object.entries(state.history)) {
+            history[key] = transactions.map((tx) =>
+              tx.hash === receipt.transactionHash
+                ? {
+                    ...tx,
+                    status: receipt.status === 'success' ? 'success' : 'failed',
+                    gasUsed: receipt.gasUsed,
+                    gasPrice: receipt.effectiveGasPrice,
+                    blockNumber: receipt.blockNumber,
+                  }
+                : tx
+            )
+          }
+
+          return { history }
+        }),
+
+      // Mark a transaction as replaced and record its replacement
+      replaceTransaction: (chainId, hash, replacement) =>
+        set((state) => {
+          const key = getHistoryKey(replacement.from, chainId)
+          const transactions = (state.history[key] || [])
+            .filter((tx) => tx.hash !== replacement.hash)
+            .map((tx) =>
+              tx.hash === hash
+                ? { ...tx, status: 'replaced' as const, replacedBy: replacement.hash }
+                : tx
+            )
+
+          return {
+            history: {
+              ...state.history,
+              [key]: [{ ...replacement, replaces: hash }, ...transactions].slice(
+                0,
+                MAX_HISTORY_LENGTH
+              ),
+            },
+          }
+        }),
+
+      // Clear history for an address on a chain
+      clearHistory: (address, chainId) =>
+        set((state) => {
+          const { [getHistoryKey(address, chainId)]: _removed, ...history } = state.history
+          return { history }
+        }),
+    }),
+    {
+      name: 'transaction-storage',
+      storage: createBigIntStorage(),
+      partialize: (state) => ({
+        history: state.history,
+      }),
+    }
+  )
+)
@@ -4,7 +4,7 @@
  * Centralized type definitions for Web3 interactions
  */
 
-import type { Address, Hash } from 'viem'
+import type { Address, Hash, Hex } from 'viem'
 
 /**
  * Token balance information
@@ -51,13 +51,19 @@ export interface Transaction {
   hash: Hash
   from: Address
   to: Address | null
+  /** Account paid by a transfer; for ERC20 transfers this differs from `to` */
+  recipient?: Address
   value: bigint
   timestamp: number
-  status: 'pending' | 'success' | 'failed'
+  status: 'pending' | 'success' | 'failed' | 'dropped' | 'replaced'
   gasUsed?: bigint
   gasPrice?: bigint
   blockNumber?: bigint
   type?: string
+  /** Sender nonce, used to detect replacements after a reload */
+  nonce?: number
+  replacedBy?: Hash
+  replaces?: Hash
 }
 
 /**
@@ -70,6 +76,12 @@ export interface GasEstimation {
   maxPriorityFeePerGas?: bigint
   estimatedCost: bigint
   estimatedCostFormatted: string
+  /** Worst-case cost at the fee cap (EIP-1559 only) */
+  maxCost?: bigint
+  /** L2 execution part of estimatedCost (OP Stack and Arbitrum only) */
+  l2ExecutionCost?: bigint
+  /** L1 data part of estimatedCost (OP Stack and Arbitrum only) */
+  l1DataFee?: bigint
 }
 
 /**
@@ -163,3 +175,82 @@ export interface ContractEvent {
   transactionHash: Hash
   logIndex: number
 }
+
+/**
+ * Sign-In With Ethereum (EIP-4361) session
+ */
+export interface SiweSession {
+  address: Address
+  chainId: number
+  nonce: string
+  message: string
+  signature: Hex
+  issuedAt: number
+  expiresAt: number
+}
+
+/**
+ * Token metadata (Uniswap token-list format)
+ */
+export interface TokenInfo {
+  chainId: number
+  address: Address
+  name: string
+  symbol: string
+  decimals: number
+  logoURI?: string
+  tags?: string[]
+}
+
+/**
+ * Token list (Uniswap token-list format)
+ */
+export interface TokenList {
+  name: string
+  timestamp: string
+  version: {
+    major: number
+    minor: number
+    patch: number
+  }
+  tokens: TokenInfo[]
+  logoURI?: string
+  keywords?: string[]
+}
+
+/**
+ * Saved address book contact
+ */
+export interface AddressBookEntry {
+  address: Address
+  label: string
+  note?: string
+  /** Chain the contact applies to; undefined means every chain */
+  chainId?: number
+  createdAt: number
+}
+
+/**
+ * Recipient of a confirmed transfer
+ */
+export interface RecentRecipient {
+  address: Address
+  chainId: number
+  lastUsedAt: number
+  count: number
+}
+
+/**
+ * Alert for cheap gas on a chain
+ */
+export interface GasAlert {
+  id: string
+  chainId: number
+  /** Notify when the base fee drops below this, in wei */
+  threshold: bigint
+  enabled: boolean
+  /** Cleared after firing until the base fee recovers above the re-arm level */
+  armed: boolean
+  lastTriggeredAt?: number
+  createdAt: number
+}
@@ -4,7 +4,7 @@
  * Helper functions for formatting blockchain data for display
  */
 
-import { formatUnits, formatEther, parseUnits } from 'viem'
+import { formatUnits, formatEther, parseUnits, isAddress } from 'viem'
 import type { Address } from 'viem'
 
 /**
@@ -136,6 +136,17 @@ export function formatRelativeTime(timestamp: number): string {
   return formatTimestamp(timestamp)
 }
 
+/**
+ * Format an expected wait (e.g., "~15 sec", "~2 min")
+ * @param seconds - Duration in seconds
+ * @returns Approximate duration string
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `~${Math.max(1, Math.round(seconds))} sec`
+  if (seconds < 3600) return `~${Math.round(seconds / 60)} min`
+  return `~${Math.round(seconds / 3600)} hr`
+}
+
 /**
  * Format large numbers with K, M, B suffixes
  * @param num - Number to format
@@ -162,13 +173,73 @@ export function parseTokenAmount(value: string, decimals: number = 18): bigint {
   }
 }
 
+/**
+ * Validate a user-entered token amount
+ * @param value - Amount in token units (e.g. "1.5")
+ * @param decimals - Token decimals
+ * @param balance - Optional spendable balance in the smallest unit
+ * @returns Parsed amount, or an error message for display
+ */
+export function validateTokenAmount(
+  value: string,
+  decimals: number,
+  balance?: bigint
+): { amount?: bigint; error?: string } {
+  const trimmed = value.trim()
+  if (!trimmed) return {}
+
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === '.') {
+    return { error: 'Enter a valid number' }
+  }
+
+  const fraction = trimmed.split('.')[1] ?? ''
+  if (fraction.length > decimals) {
+    return { error: `Up to ${decimals} decimal places allowed` }
+  }
+
+  const amount = parseUnits(trimmed, decimals)
+  if (amount === 0n) {
+    return { error: 'Amount must be greater than zero' }
+  }
+
+  if (balance !== undefined && amount > balance) {
+    return { amount, error: 'Amount exceeds balance' }
+  }
+
+  return { amount }
+}
+
+/**
+ * Check whether an address's hex is all one case, so it carries no checksum
+ */
+function isSingleCase(address: string): boolean {
+  const hex = address.slice(2)
+  return hex === hex.toLowerCase() || hex === hex.toUpperCase()
+}
+
 /**
  * Validate Ethereum address
+ * All-lowercase and all-uppercase addresses carry no checksum and are accepted;
+ * mixed-case addresses must carry a valid EIP-55 checksum
  * @param address - Address to validate
  * @returns True if valid
  */
 export function isValidAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address)
+  if (!isAddress(address, { strict: false })) return false
+  return isSingleCase(address) || isAddress(address, { strict: true })
+}
+
+/**
+ * Check whether an address is well-formed but fails its EIP-55 checksum
+ * @param address - Address to check
+ * @returns True if the hex is valid and the mixed casing is wrong
+ */
+export function hasInvalidChecksum(address: string): boolean {
+  return (
+    isAddress(address, { strict: false }) &&
+    !isSingleCase(address) &&
+    !isAddress(address, { strict: true })
+  )
 }
 
 /**
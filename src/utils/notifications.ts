@@ -0,0 +1,40 @@
+/**
+ * Notification Utilities
+ *
+ * Browser notifications with permission handling
+ */
+
+/**
+ * Check whether the browser supports notifications
+ * @returns True if the Notification API is available
+ */
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+/**
+ * Ask for permission to show notifications
+ * Must be called from a user gesture in most browsers
+ * @returns Resulting permission, or 'denied' when unsupported
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) return 'denied'
+  if (Notification.permission !== 'default') return Notification.permission
+  return Notification.requestPermission()
+}
+
+/**
+ * Show a browser notification if permission has been granted
+ * @param title - Notification title
+ * @param body - Notification text
+ */
+export function showNotification(title: string, body: string): void {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return
+
+  try {
+    new Notification(title, { body })
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Failed to show notification:', error)
+  }
+}